@@ -1123,6 +1123,9 @@ export const insertTab: StateCommand = ({ state, dispatch }) => {
 ///  - Ctrl-t: [`transposeChars`](#commands.transposeChars)
 ///  - Ctrl-v: [`cursorPageDown`](#commands.cursorPageDown)
 ///  - Alt-v: [`cursorPageUp`](#commands.cursorPageUp)
+///
+/// Ctrl-s and Ctrl-r are left unbound, so that they can be used for
+/// [incremental search](#search.incrementalSearch).
 export const emacsStyleKeymap: readonly KeyBinding[] = [
   { key: "Ctrl-b", run: cursorCharLeft, shift: selectCharLeft, preventDefault: true },
   { key: "Ctrl-f", run: cursorCharRight, shift: selectCharRight },
@@ -99,7 +99,8 @@ const fallbackHighlighter = Facet.define<Highlighter, readonly Highlighter[] | n
   },
 });
 
-function getHighlighters(state: EditorState): readonly Highlighter[] | null {
+/// @internal
+export function getHighlighters(state: EditorState): readonly Highlighter[] | null {
   const main = state.facet(highlighterFacet);
   return main.length ? main : state.facet(fallbackHighlighter);
 }
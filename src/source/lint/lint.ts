@@ -17,6 +17,8 @@ import {
   Panel,
   showPanel,
   getPanel,
+  overviewRulerSource,
+  OverviewRulerMark,
 } from "@/view/index";
 import {
   Text,
@@ -826,6 +828,11 @@ const baseTheme = EditorView.baseTheme({
   ".cm-lintRange-warning": { backgroundImage: underline("orange") },
   ".cm-lintRange-info": { backgroundImage: underline("#999") },
   ".cm-lintRange-hint": { backgroundImage: underline("#66d") },
+
+  ".cm-overviewRuler-tick.cm-overviewRuler-lint-error": { backgroundColor: "#d11" },
+  ".cm-overviewRuler-tick.cm-overviewRuler-lint-warning": { backgroundColor: "orange" },
+  ".cm-overviewRuler-tick.cm-overviewRuler-lint-info": { backgroundColor: "#999" },
+  ".cm-overviewRuler-tick.cm-overviewRuler-lint-hint": { backgroundColor: "#66d" },
   ".cm-lintRange-active": { backgroundColor: "#ffdd9980" },
 
   ".cm-tooltip-lint": {
@@ -1067,8 +1074,30 @@ const lintGutterTheme = EditorView.baseTheme({
   },
 });
 
+// The overview ruler marks, cached per set of diagnostics, so that
+// the ruler is only redrawn when the diagnostics change.
+const rulerMarks = new WeakMap<DecorationSet, readonly OverviewRulerMark[]>();
+
+const lintRulerSource = overviewRulerSource.of({
+  markers(view) {
+    const diagnostics = view.state.field(lintState).diagnostics;
+    let marks = rulerMarks.get(diagnostics);
+    if (!marks) {
+      const ranges: OverviewRulerMark[] = [];
+      forEachDiagnostic(view.state, (d, from, to) => {
+        ranges.push({ from, to, class: "cm-overviewRuler-lint-" + d.severity });
+      });
+      rulerMarks.set(diagnostics, (marks = ranges));
+    }
+    return marks;
+  },
+  markersChange: (update) =>
+    update.startState.field(lintState).diagnostics != update.state.field(lintState).diagnostics,
+});
+
 const lintExtensions = [
   lintState,
+  lintRulerSource,
   EditorView.decorations.compute([lintState], (state) => {
     const { selected, panel } = state.field(lintState);
     return !selected || !panel || selected.from == selected.to
@@ -7,8 +7,9 @@ import {
   countColumn,
   Line,
   SelectionRange,
+  Transaction,
 } from "@/state/index";
-import { syntaxTree, indentUnit } from "@/language/index";
+import { syntaxTree, ensureSyntaxTree, indentUnit } from "@/language/index";
 import { SyntaxNode, Tree } from "@lezer/common";
 import { markdownLanguage } from "./markdown";
 
@@ -433,3 +434,636 @@ export const deleteMarkupBackward: StateCommand = ({ state, dispatch }) => {
   dispatch(state.update(changes, { scrollIntoView: true, userEvent: "delete" }));
   return true;
 };
+
+// Returns the lines touched by the selection, in document order. A
+// line that a range merely ends at the start of isn't included.
+export function selectedLines(state: EditorState) {
+  const lines: Line[] = [];
+  let prevLine = -1;
+
+  for (const { from, to } of state.selection.ranges) {
+    for (let pos = from; pos <= to; ) {
+      const line = state.doc.lineAt(pos);
+
+      if (line.from > prevLine && (from == to || to > line.from)) {
+        prevLine = line.from;
+        lines.push(line);
+      }
+
+      pos = line.to + 1;
+    }
+  }
+
+  return lines;
+}
+
+function enclosingNode(tree: Tree, range: SelectionRange, names: readonly string[]) {
+  for (const side of [1, -1] as const) {
+    for (
+      let node: SyntaxNode | null = tree.resolveInner(range.from, side);
+      node;
+      node = node.parent
+    ) {
+      if (names.indexOf(node.name) > -1 && node.from <= range.from && node.to >= range.to) {
+        return node;
+      }
+    }
+  }
+
+  return null;
+}
+
+function toggleInlineMarkup(node: string, mark: string, markup: string): StateCommand {
+  return ({ state, dispatch }) => {
+    if (state.readOnly) {
+      return false;
+    }
+
+    const tree = syntaxTree(state);
+    let applied = false;
+
+    const changes = state.changeByRange((range) => {
+      if (!markdownLanguage.isActiveAt(state, range.from)) {
+        return { range };
+      }
+
+      applied = true;
+      const existing = enclosingNode(tree, range, [node]);
+      const open = existing && existing.firstChild;
+      const close = existing && existing.lastChild;
+
+      // Already inside this kind of markup: remove its markers rather
+      // than nesting another level.
+      if (open && close && open != close && open.name == mark && close.name == mark) {
+        const changes = state.changes([
+          { from: open.from, to: open.to },
+          { from: close.from, to: close.to },
+        ]);
+
+        return { range: range.map(changes), changes };
+      }
+
+      let { from, to } = range;
+
+      // Keep whitespace at the edges of the selection outside the
+      // markup, since `** bold**` isn't valid emphasis.
+      while (from < to && /\s/.test(state.sliceDoc(from, from + 1))) from++;
+      while (to > from && /\s/.test(state.sliceDoc(to - 1, to))) to--;
+
+      return {
+        range: EditorSelection.range(from + markup.length, to + markup.length),
+        changes: [
+          { from, insert: markup },
+          { from: to, insert: markup },
+        ],
+      };
+    });
+
+    if (!applied) {
+      return false;
+    }
+
+    dispatch(state.update(changes, { scrollIntoView: true, userEvent: "input" }));
+    return true;
+  };
+}
+
+/// Wrap the selection in `**` strong emphasis markup, or, when it is
+/// already inside a `StrongEmphasis` node, remove that node's markers.
+export const toggleStrong = toggleInlineMarkup("StrongEmphasis", "EmphasisMark", "**");
+
+/// Toggle `*` emphasis around the selection.
+export const toggleEmphasis = toggleInlineMarkup("Emphasis", "EmphasisMark", "*");
+
+/// Toggle `~~` strikethrough around the selection. Only has an
+/// effect when the GFM strikethrough extension is enabled.
+export const toggleStrikethrough = toggleInlineMarkup("Strikethrough", "StrikethroughMark", "~~");
+
+/// Toggle `` ` `` inline code around the selection.
+export const toggleInlineCode = toggleInlineMarkup("InlineCode", "CodeMark", "`");
+
+function linkCommand(image: boolean): StateCommand {
+  const name = image ? "Image" : "Link";
+  const prefix = image ? "![" : "[";
+
+  return ({ state, dispatch }) => {
+    if (state.readOnly) {
+      return false;
+    }
+
+    const tree = syntaxTree(state);
+    let applied = false;
+
+    const changes = state.changeByRange((range) => {
+      if (!markdownLanguage.isActiveAt(state, range.from)) {
+        return { range };
+      }
+
+      applied = true;
+      const existing = enclosingNode(tree, range, [name]);
+      const open = existing && existing.firstChild;
+      let close = open && open.nextSibling;
+      while (close && close.name != "LinkMark") close = close.nextSibling;
+
+      // Unwrap an existing link, leaving only its text.
+      if (existing && open && close) {
+        const insert = state.sliceDoc(open.to, close.from);
+        return {
+          range: EditorSelection.range(existing.from, existing.from + insert.length),
+          changes: { from: existing.from, to: existing.to, insert },
+        };
+      }
+
+      const { from, to } = range;
+      const text = state.sliceDoc(from, to);
+
+      // A selected URL becomes the link target.
+      if (/^(?:[a-z][\w+.-]*:|www\.)\S+$/i.test(text)) {
+        return {
+          range: EditorSelection.cursor(from + prefix.length),
+          changes: { from, to, insert: `${prefix}](${text})` },
+        };
+      }
+
+      return {
+        range: EditorSelection.cursor(range.empty ? from + prefix.length : to + prefix.length + 2),
+        changes: [
+          { from, insert: prefix },
+          { from: to, insert: "]()" },
+        ],
+      };
+    });
+
+    if (!applied) {
+      return false;
+    }
+
+    dispatch(state.update(changes, { scrollIntoView: true, userEvent: "input" }));
+    return true;
+  };
+}
+
+/// Wrap the selection in a link, leaving the cursor where the URL
+/// should be typed. When the selection is a URL, it is used as the
+/// link target instead. Inside an existing link, the link is
+/// replaced by its text.
+export const toggleLink = linkCommand(false);
+
+/// Like [`toggleLink`](#lang-markdown.toggleLink), but for images.
+export const toggleImage = linkCommand(true);
+
+function headingCommand(level: (current: number) => number): StateCommand {
+  return ({ state, dispatch }) => {
+    if (state.readOnly) {
+      return false;
+    }
+
+    const tree = syntaxTree(state);
+    const changes: ChangeSpec[] = [];
+
+    for (const line of selectedLines(state)) {
+      if (!markdownLanguage.isActiveAt(state, line.from)) {
+        continue;
+      }
+
+      let heading: SyntaxNode | null = null;
+      for (let node: SyntaxNode | null = tree.resolveInner(line.to, -1); node; node = node.parent) {
+        if (/^(?:FencedCode|CodeBlock|SetextHeading\d)$/.test(node.name)) {
+          heading = node;
+          break;
+        }
+
+        if (/^ATXHeading\d$/.test(node.name)) {
+          if (node.from >= line.from) heading = node;
+          break;
+        }
+      }
+
+      if (heading && !/^ATX/.test(heading.name)) {
+        continue;
+      }
+
+      const current = heading ? +heading.name.slice(10) : 0;
+      const next = level(current);
+      const mark = heading && heading.firstChild;
+
+      if (next == current) {
+        continue;
+      } else if (mark && mark.name == "HeaderMark") {
+        if (next) {
+          changes.push({ from: mark.from, to: mark.to, insert: "#".repeat(next) });
+        } else {
+          const space = /^\s*/.exec(state.sliceDoc(mark.to, line.to))![0].length;
+          changes.push({ from: mark.from, to: mark.to + space });
+        }
+      } else if (!heading) {
+        const prefix = /^(?:\s*(?:>|[-+*](?=\s)|\d+[.)](?=\s)))*\s*/.exec(line.text)![0];
+        changes.push({ from: line.from + prefix.length, insert: "#".repeat(next) + " " });
+      }
+    }
+
+    if (!changes.length) {
+      return false;
+    }
+
+    const changeSet = state.changes(changes);
+    dispatch(
+      state.update({
+        changes: changeSet,
+        selection: state.selection.map(changeSet, 1),
+        scrollIntoView: true,
+        userEvent: "input",
+      })
+    );
+
+    return true;
+  };
+}
+
+/// Cycle the ATX heading level of the selected lines, going from a
+/// plain paragraph to `#`, `##`, and so on up to `######`, after
+/// which the heading markup is removed again.
+export const cycleHeading = headingCommand((level) => (level == 6 ? 0 : level + 1));
+
+/// Toggle `>` blockquote markup on the selected lines. When all
+/// non-blank lines are already quoted, one level of quoting is
+/// removed instead.
+export const toggleBlockquote: StateCommand = ({ state, dispatch }) => {
+  if (state.readOnly) {
+    return false;
+  }
+
+  const lines = selectedLines(state).filter((line) =>
+    markdownLanguage.isActiveAt(state, line.from)
+  );
+  const quoted = lines.map((line) => /^ {0,3}> ?/.exec(line.text));
+
+  if (!lines.length) {
+    return false;
+  }
+
+  const changes: ChangeSpec[] = [];
+  const unquote = lines.every((line, i) => quoted[i] || !/\S/.test(line.text));
+
+  lines.forEach((line, i) => {
+    const match = quoted[i];
+    if (unquote) {
+      if (match)
+        changes.push({ from: line.from + match[0].indexOf(">"), to: line.from + match[0].length });
+    } else {
+      changes.push({ from: line.from, insert: /\S/.test(line.text) ? "> " : ">" });
+    }
+  });
+
+  const changeSet = state.changes(changes);
+  dispatch(
+    state.update({
+      changes: changeSet,
+      selection: state.selection.map(changeSet, 1),
+      scrollIntoView: true,
+      userEvent: "input",
+    })
+  );
+
+  return true;
+};
+
+type ListKind = "bullet" | "ordered" | "task";
+
+const listLine = /^((?:\s*>)*\s*)(?:([-+*])|(\d+)[.)])(?: +|\t|$)(\[([ xX])\](?: +|$))?/;
+
+function listKindOf(match: RegExpExecArray): ListKind {
+  return match[3] ? "ordered" : match[4] ? "task" : "bullet";
+}
+
+function listCommand(kind: ListKind): StateCommand {
+  return ({ state, dispatch }) => {
+    if (state.readOnly) {
+      return false;
+    }
+
+    let lines = selectedLines(state).filter((line) =>
+      markdownLanguage.isActiveAt(state, line.from)
+    );
+
+    if (lines.length > 1) {
+      lines = lines.filter((line) => /\S/.test(line.text));
+    }
+
+    if (!lines.length) {
+      return false;
+    }
+
+    const matches = lines.map((line) => listLine.exec(line.text));
+    const remove = matches.every((match) => match && listKindOf(match) == kind);
+    const numbers = new Map<string, number>();
+    const changes: ChangeSpec[] = [];
+
+    lines.forEach((line, i) => {
+      const match = matches[i];
+
+      if (remove) {
+        changes.push({ from: line.from + match![1].length, to: line.from + match![0].length });
+        return;
+      }
+
+      const prefix = match ? match[1] : /^(?:\s*>)*\s*/.exec(line.text)![0];
+      let insert = "- ";
+
+      if (kind == "ordered") {
+        // Number items separately for each level of indentation.
+        const number = (numbers.get(prefix) || 0) + 1;
+        for (const key of numbers.keys()) if (key.length > prefix.length) numbers.delete(key);
+        numbers.set(prefix, number);
+        insert = number + ". ";
+      } else if (kind == "task") {
+        insert = `- [${match && match[5] && match[5] != " " ? "x" : " "}] `;
+      }
+
+      changes.push({
+        from: line.from + prefix.length,
+        to: match ? line.from + match[0].length : line.from + prefix.length,
+        insert,
+      });
+    });
+
+    const changeSet = state.changes(changes);
+    dispatch(
+      state.update({
+        changes: changeSet,
+        selection: state.selection.map(changeSet, 1),
+        scrollIntoView: true,
+        userEvent: "input",
+      })
+    );
+
+    return true;
+  };
+}
+
+/// Turn the selected lines into a bullet list, converting existing
+/// list items of another type, or remove the list markers when all
+/// lines already are bullet items.
+export const toggleBulletList = listCommand("bullet");
+
+/// Toggle an ordered list on the selected lines, numbering the items
+/// from 1.
+export const toggleOrderedList = listCommand("ordered");
+
+/// Toggle a task list (`- [ ]`) on the selected lines. Existing task
+/// items keep their checked state when converted.
+export const toggleTaskList = listCommand("task");
+
+// Number the items of an ordered list consecutively, starting at
+// `start` or, when not given, at the number of the first item.
+function renumberWholeList(list: SyntaxNode, doc: Text, changes: ChangeSpec[], start?: number) {
+  let number = start;
+
+  for (let item = list.firstChild; item; item = item.nextSibling) {
+    if (item.name != "ListItem") continue;
+
+    const m = itemNumber(item, doc);
+    if (number == null) number = +m[2];
+
+    if (+m[2] != number) {
+      changes.push({
+        from: item.from + m[1].length,
+        to: item.from + m[0].length,
+        insert: String(number),
+      });
+    }
+
+    number++;
+  }
+}
+
+/// Renumber the ordered list around each selection range, so that
+/// its items count up from the number of the first item.
+export const renumberOrderedList: StateCommand = ({ state, dispatch }) => {
+  if (state.readOnly) {
+    return false;
+  }
+
+  const tree = syntaxTree(state);
+  const changes: ChangeSpec[] = [];
+  const seen = new Set<number>();
+
+  for (const range of state.selection.ranges) {
+    const list = enclosingNode(tree, range, ["OrderedList"]);
+    if (!list || seen.has(list.from)) continue;
+    seen.add(list.from);
+    renumberWholeList(list, state.doc, changes);
+  }
+
+  if (!seen.size) {
+    return false;
+  }
+
+  if (changes.length) {
+    dispatch(state.update({ changes, userEvent: "input" }));
+  }
+
+  return true;
+};
+
+const quotePrefix = /^(?:[ \t]*>[ ]?)*/;
+
+// The offset of an item's marker from the start of its line.
+function markerOffset(doc: Text, item: SyntaxNode) {
+  return item.from - doc.lineAt(item.from).from;
+}
+
+// The offset of the content of an item from the start of its line,
+// which is where child blocks have to start.
+function contentOffset(doc: Text, item: SyntaxNode) {
+  const offset = markerOffset(doc, item);
+  const line = doc.lineAt(item.from);
+  const m = /^(?:[-+*]|\d+[.)])( *)/.exec(line.text.slice(offset))!;
+  const space = m[1].length;
+  return offset + m[0].length - space + (space == 0 || space > 4 ? 1 : space);
+}
+
+// The list items that the selection touches the first line of,
+// leaving out items nested in other selected items.
+function selectedListItems(state: EditorState) {
+  const tree = syntaxTree(state);
+  const items: SyntaxNode[] = [];
+
+  for (const line of selectedLines(state)) {
+    const text = /^(?:\s*>)*\s*/.exec(line.text)![0].length;
+    if (text == line.length || !markdownLanguage.isActiveAt(state, line.from + text)) continue;
+
+    for (
+      let node: SyntaxNode | null = tree.resolveInner(line.from + text, 1);
+      node;
+      node = node.parent
+    ) {
+      if (node.name == "ListItem") {
+        if (!items.some((item) => item.from == node!.from)) items.push(node);
+        break;
+      }
+    }
+  }
+
+  return items.filter(
+    (item) => !items.some((other) => other.from < item.from && other.to >= item.to)
+  );
+}
+
+// The list item before or after the given one, skipping the quote
+// marks that blockquotes add between items.
+function siblingItem(item: SyntaxNode, dir: -1 | 1) {
+  let node = dir < 0 ? item.prevSibling : item.nextSibling;
+  while (node && node.name != "ListItem") node = dir < 0 ? node.prevSibling : node.nextSibling;
+  return node;
+}
+
+// Add `delta` columns of indentation to (or, when negative, remove
+// them from) the lines of the given item, which includes its
+// sublists.
+function reindentItem(doc: Text, item: SyntaxNode, delta: number, changes: ChangeSpec[]) {
+  const last = doc.lineAt(item.to).number;
+
+  for (let n = doc.lineAt(item.from).number; n <= last; n++) {
+    const line = doc.line(n);
+    const prefix = quotePrefix.exec(line.text)![0].length;
+    const space = /^ */.exec(line.text.slice(prefix))![0].length;
+    if (prefix + space == line.length) continue;
+
+    if (delta > 0) {
+      changes.push({ from: line.from + prefix, insert: " ".repeat(delta) });
+    } else if (space) {
+      changes.push({ from: line.from + prefix, to: line.from + prefix + Math.min(space, -delta) });
+    }
+  }
+}
+
+// Apply a change that moves list items between lists, renumbering
+// the ordered lists that hold the items at the `touched` positions.
+// Lists whose first item starts at one of the `restart` positions
+// are numbered from 1.
+function moveListItems(
+  state: EditorState,
+  dispatch: (tr: Transaction) => void,
+  changes: ChangeSpec[],
+  touched: readonly number[],
+  restart: readonly number[]
+) {
+  let changeSet = state.changes(changes);
+  const next = state.update({ changes: changeSet }).state;
+  const tree = ensureSyntaxTree(next, next.doc.length, 200);
+
+  if (tree) {
+    const renumber: ChangeSpec[] = [];
+    const seen = new Set<number>();
+    const restartAt = restart.map((pos) => changeSet.mapPos(pos, 1));
+
+    for (const pos of touched) {
+      const mapped = changeSet.mapPos(pos, 1);
+      let node: SyntaxNode | null = tree.resolveInner(mapped, 1);
+      while (node && !(node.name == "ListItem" && node.from == mapped)) node = node.parent;
+
+      const list = node && node.parent;
+      if (!list || list.name != "OrderedList" || seen.has(list.from)) continue;
+      seen.add(list.from);
+
+      const first = list.getChild("ListItem");
+      const start = first && restartAt.indexOf(first.from) > -1 ? 1 : undefined;
+      renumberWholeList(list, next.doc, renumber, start);
+    }
+
+    changeSet = changeSet.compose(next.changes(renumber));
+  }
+
+  dispatch(
+    state.update({
+      changes: changeSet,
+      selection: state.selection.map(changeSet, 1),
+      scrollIntoView: true,
+      userEvent: "input.indent",
+    })
+  );
+}
+
+/// Indent the selected list items, along with their sublists, making
+/// each a child of the item before it. Ordered lists that items are
+/// moved out of or into are renumbered.
+export const indentListItem: StateCommand = ({ state, dispatch }) => {
+  if (state.readOnly) {
+    return false;
+  }
+
+  const items = selectedListItems(state);
+  const changes: ChangeSpec[] = [];
+  const touched: number[] = [],
+    restart: number[] = [];
+
+  for (const item of items) {
+    // Consecutive selected items all move under the item before the
+    // first of them.
+    let parent = siblingItem(item, -1);
+    while (parent && items.some((other) => other.from == parent!.from)) {
+      parent = siblingItem(parent, -1);
+    }
+    if (!parent) continue;
+
+    reindentItem(
+      state.doc,
+      item,
+      contentOffset(state.doc, parent) - markerOffset(state.doc, item),
+      changes
+    );
+    touched.push(parent.from, item.from);
+    restart.push(item.from);
+  }
+
+  if (!touched.length) {
+    return false;
+  }
+
+  moveListItems(state, dispatch, changes, touched, restart);
+  return true;
+};
+
+/// Outdent the selected list items, along with their sublists, making
+/// each a sibling of its parent item. Ordered lists that items are
+/// moved out of or into are renumbered.
+export const outdentListItem: StateCommand = ({ state, dispatch }) => {
+  if (state.readOnly) {
+    return false;
+  }
+
+  const changes: ChangeSpec[] = [];
+  const touched: number[] = [],
+    restart: number[] = [];
+
+  for (const item of selectedListItems(state)) {
+    const parent = item.parent?.parent;
+    if (!parent || parent.name != "ListItem") continue;
+
+    reindentItem(
+      state.doc,
+      item,
+      markerOffset(state.doc, parent) - markerOffset(state.doc, item),
+      changes
+    );
+    touched.push(item.from);
+
+    // Items after the outdented one become its children.
+    const next = siblingItem(item, 1);
+    if (next) {
+      touched.push(next.from);
+      restart.push(next.from);
+    }
+
+    const prev = siblingItem(item, -1);
+    if (prev) touched.push(prev.from);
+  }
+
+  if (!touched.length) {
+    return false;
+  }
+
+  moveListItems(state, dispatch, changes, touched, restart);
+  return true;
+};
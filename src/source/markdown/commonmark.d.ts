@@ -0,0 +1,72 @@
+// The parts of the commonmark.js API used by the Markdown exporter,
+// which doesn't ship its own type declarations.
+declare module "commonmark" {
+  type NodeType =
+    | "document"
+    | "paragraph"
+    | "block_quote"
+    | "list"
+    | "item"
+    | "heading"
+    | "code_block"
+    | "html_block"
+    | "thematic_break"
+    | "text"
+    | "softbreak"
+    | "linebreak"
+    | "emph"
+    | "strong"
+    | "link"
+    | "image"
+    | "code"
+    | "html_inline"
+    | "custom_inline"
+    | "custom_block";
+
+  type Position = [[number, number], [number, number]];
+
+  export class Node {
+    constructor(type: NodeType, sourcepos?: Position);
+    readonly type: NodeType;
+    readonly firstChild: Node | null;
+    readonly lastChild: Node | null;
+    readonly next: Node | null;
+    readonly prev: Node | null;
+    readonly parent: Node | null;
+    readonly sourcepos: Position;
+    readonly isContainer: boolean;
+    literal: string | null;
+    destination: string | null;
+    title: string | null;
+    info: string | null;
+    level: number;
+    onEnter: string | null;
+    onExit: string | null;
+    appendChild(child: Node): void;
+    prependChild(child: Node): void;
+    insertAfter(sibling: Node): void;
+    insertBefore(sibling: Node): void;
+    unlink(): void;
+    walker(): NodeWalker;
+  }
+
+  export interface NodeWalkingStep {
+    entering: boolean;
+    node: Node;
+  }
+
+  export interface NodeWalker {
+    next(): NodeWalkingStep | null;
+    resumeAt(node: Node, entering?: boolean): void;
+  }
+
+  export class Parser {
+    constructor(options?: { smart?: boolean });
+    parse(input: string): Node;
+  }
+
+  export class HtmlRenderer {
+    constructor(options?: { safe?: boolean; softbreak?: string; sourcepos?: boolean });
+    render(root: Node): string;
+  }
+}
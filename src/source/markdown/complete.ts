@@ -0,0 +1,181 @@
+import { EditorState } from "@/state/index";
+import { syntaxTree } from "@/language/index";
+import {
+  Completion,
+  CompletionContext,
+  CompletionResult,
+  CompletionSource,
+} from "@/autocomplete/index";
+import { markdownHeadings, headingSlugs } from "./outline";
+
+/// A function that provides completions for relative link targets.
+/// It is given the path typed so far, and returns paths (or full
+/// completion objects) to offer. The result is filtered as more of
+/// the path is typed, including across `/` separators, so it should
+/// hold paths in subdirectories too.
+export type MarkdownPathProvider = (
+  path: string,
+  context: CompletionContext
+) => readonly (string | Completion)[] | Promise<readonly (string | Completion)[]>;
+
+interface MarkdownCompletionConfig {
+  /// When given, relative link and image targets (after `](`) are
+  /// completed with the results of this function.
+  files?: MarkdownPathProvider;
+  /// The emoji names to complete after `:`, mapped to the emoji they
+  /// stand for. Defaults to a small set of common GitHub emoji. Pass
+  /// `false` to disable emoji completion.
+  emoji?: Record<string, string> | false;
+}
+
+/// A selection of commonly used GitHub emoji shortcodes.
+export const commonEmoji: Record<string, string> = {
+  "+1": "👍",
+  "-1": "👎",
+  bug: "🐛",
+  books: "📚",
+  bulb: "💡",
+  check: "✔️",
+  clap: "👏",
+  construction: "🚧",
+  cry: "😢",
+  eyes: "👀",
+  fire: "🔥",
+  heart: "❤️",
+  hourglass: "⌛",
+  joy: "😂",
+  laughing: "😆",
+  lock: "🔒",
+  memo: "📝",
+  no_entry: "⛔",
+  ok_hand: "👌",
+  pencil2: "✏️",
+  point_right: "👉",
+  pray: "🙏",
+  question: "❓",
+  rocket: "🚀",
+  sparkles: "✨",
+  smile: "😄",
+  smiley: "😃",
+  star: "⭐",
+  tada: "🎉",
+  thinking: "🤔",
+  warning: "⚠️",
+  wave: "👋",
+  white_check_mark: "✅",
+  wink: "😉",
+  wrench: "🔧",
+  x: "❌",
+  zap: "⚡",
+};
+
+export function inCode(state: EditorState, pos: number) {
+  for (let node = syntaxTree(state).resolveInner(pos, -1); node; node = node.parent!) {
+    if (/^(?:InlineCode|FencedCode|CodeBlock|CommentBlock|HTMLBlock)$/.test(node.name)) {
+      return true;
+    }
+    if (node.type.isTop) break;
+  }
+
+  return false;
+}
+
+function referenceLabels(state: EditorState) {
+  const labels: Completion[] = [];
+  const seen = new Set<string>();
+
+  for (let node = syntaxTree(state).topNode.firstChild; node; node = node.nextSibling) {
+    const label = node.name == "LinkReference" && node.getChild("LinkLabel");
+    const url = label && node.getChild("URL");
+    if (!label) continue;
+
+    const text = state.sliceDoc(label.from + 1, label.to - 1);
+    if (seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+
+    labels.push({
+      label: text,
+      detail: url ? state.sliceDoc(url.from, url.to) : undefined,
+      type: "variable",
+    });
+  }
+
+  return labels;
+}
+
+function anchorCompletions(state: EditorState): Completion[] {
+  const headings = markdownHeadings(state);
+  const slugs = headingSlugs(headings);
+
+  return headings.map((heading, i) => ({
+    label: "#" + slugs[i],
+    detail: "#".repeat(heading.level) + " " + heading.text,
+    type: "constant",
+  }));
+}
+
+/// Create a completion source for Markdown that completes reference
+/// labels after `[text][`, heading anchors after `](#` (using
+/// GitHub's slug rules), `:emoji:` shortcodes, and, when a path
+/// provider is configured, relative link targets. Register it with
+/// language data, for example
+/// `markdownLanguage.data.of({autocomplete: markdownCompletionSource()})`.
+export function markdownCompletionSource(config: MarkdownCompletionConfig = {}): CompletionSource {
+  const emoji = config.emoji === false ? null : config.emoji || commonEmoji;
+  let emojiOptions: readonly Completion[] | null = null;
+
+  return (
+    context: CompletionContext
+  ): CompletionResult | null | Promise<CompletionResult | null> => {
+    const { state, pos } = context;
+
+    if (inCode(state, pos)) {
+      return null;
+    }
+
+    const line = state.doc.lineAt(pos);
+    const before = state.sliceDoc(Math.max(line.from, pos - 200), pos);
+    let match: RegExpExecArray | null;
+
+    if ((match = /\]\[([^\]\n]*)$/.exec(before))) {
+      return {
+        from: pos - match[1].length,
+        options: referenceLabels(state),
+        validFor: /^[^\]\n]*$/,
+      };
+    }
+
+    if ((match = /\]\((#[^)\s]*)$/.exec(before))) {
+      return {
+        from: pos - match[1].length,
+        options: anchorCompletions(state),
+        validFor: /^#[^)\s]*$/,
+      };
+    }
+
+    if (config.files && (match = /\]\(((?![a-z][\w+.-]*:)[^)#\s]*)$/i.exec(before))) {
+      const from = pos - match[1].length;
+      const toResult = (paths: readonly (string | Completion)[]) => ({
+        from,
+        options: paths.map((p) => (typeof p == "string" ? { label: p, type: "text" } : p)),
+        validFor: /^[^)#\s]*$/,
+      });
+      const result = config.files(match[1], context);
+      return "then" in result ? result.then(toResult) : toResult(result);
+    }
+
+    if (emoji && (match = /(?:^|[\s([])(:[\w+-]*)$/.exec(before))) {
+      if (match[1].length < 2 && !context.explicit) return null;
+      if (!emojiOptions) {
+        emojiOptions = Object.keys(emoji).map((name) => ({
+          label: `:${name}:`,
+          displayLabel: `${emoji[name]} :${name}:`,
+          type: "text",
+        }));
+      }
+      return { from: pos - match[1].length, options: emojiOptions, validFor: /^:[\w+-]*$/ };
+    }
+
+    return null;
+  };
+}
@@ -0,0 +1,329 @@
+import { Extension, EditorState, StateField, Range, Transaction } from "@/state/index";
+import { EditorView, Decoration, DecorationSet, WidgetType } from "@/view/index";
+import { syntaxTree } from "@/language/index";
+import { SyntaxNode } from "@lezer/common";
+import { TopBlock, topBlocks, unchangedBlocks } from "./markdown";
+
+interface MarkdownEmbedsConfig {
+  /// Maps the URL of an image in the document to the URL to load it
+  /// from, or null to not show the image. By default, URLs are used
+  /// as they are.
+  resolveImage?: (url: string) => string | null;
+  /// Renders a piece of TeX math into the given DOM element. `display`
+  /// is true for `$$...$$` blocks and false for inline `$...$` math.
+  /// When not given, math is left as source.
+  renderMath?: (source: string, dom: HTMLElement, display: boolean) => void;
+}
+
+type Embed =
+  | { type: "image"; from: number; to: number; line: number; src: string; alt: string }
+  | { type: "math"; from: number; to: number; source: string; display: boolean };
+
+class ImageWidget extends WidgetType {
+  constructor(readonly src: string, readonly alt: string) {
+    super();
+  }
+
+  eq(other: ImageWidget) {
+    return other.src == this.src && other.alt == this.alt;
+  }
+
+  toDOM(view: EditorView) {
+    const wrap = document.createElement("div");
+    wrap.className = "cm-markdownImage";
+    const img = wrap.appendChild(document.createElement("img"));
+    img.src = this.src;
+    img.alt = this.alt;
+    // The height of the line changes once the image is loaded.
+    img.onload = img.onerror = () => view.requestMeasure();
+    return wrap;
+  }
+
+  get estimatedHeight() {
+    return 100;
+  }
+}
+
+class MathWidget extends WidgetType {
+  constructor(
+    readonly source: string,
+    readonly display: boolean,
+    readonly render: (source: string, dom: HTMLElement, display: boolean) => void
+  ) {
+    super();
+  }
+
+  eq(other: MathWidget) {
+    return other.source == this.source && other.display == this.display;
+  }
+
+  toDOM() {
+    const dom = document.createElement(this.display ? "div" : "span");
+    dom.className = this.display ? "cm-markdownMath cm-markdownMath-display" : "cm-markdownMath";
+    try {
+      this.render(this.source, dom, this.display);
+    } catch (_) {
+      dom.textContent = this.source;
+      dom.classList.add("cm-markdownMath-error");
+    }
+    return dom;
+  }
+
+  ignoreEvent() {
+    return false;
+  }
+}
+
+function imageEmbed(state: EditorState, node: SyntaxNode): Embed | null {
+  const url = node.getChild("URL");
+  const open = node.firstChild;
+  let close = open && open.nextSibling;
+  while (close && close.name != "LinkMark") close = close.nextSibling;
+
+  if (!url) {
+    return null;
+  }
+
+  return {
+    type: "image",
+    from: node.from,
+    to: node.to,
+    line: state.doc.lineAt(node.to).to,
+    src: state.sliceDoc(url.from, url.to).replace(/^<|>$/g, ""),
+    alt: open && close ? state.sliceDoc(open.to, close.from) : "",
+  };
+}
+
+const mathRE = /\$\$([^]+?)\$\$|\$(?![\s$])((?:\\.|[^$\\\n])+?)(?<!\s)\$(?!\d)/g;
+
+// Find `$...$` and `$$...$$` spans in a block of text, skipping any
+// that overlap inline code, links, or escapes.
+function mathEmbeds(state: EditorState, node: SyntaxNode, embeds: Embed[]) {
+  const text = state.sliceDoc(node.from, node.to);
+  const skip: { from: number; to: number }[] = [];
+
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (/^(?:InlineCode|Link|Image|URL|Autolink|Escape|HTMLTag)$/.test(child.name)) {
+      skip.push({ from: child.from - node.from, to: child.to - node.from });
+    }
+  }
+
+  for (let match; (match = mathRE.exec(text)); ) {
+    const from = match.index,
+      to = from + match[0].length;
+    if (skip.some((s) => s.from < to && s.to > from)) continue;
+
+    embeds.push({
+      type: "math",
+      from: node.from + from,
+      to: node.from + to,
+      source: (match[1] ?? match[2]).trim(),
+      display: match[1] != null,
+    });
+  }
+
+  mathRE.lastIndex = 0;
+}
+
+// Collect the embeds in the blocks between `from` and `to`.
+function scanEmbeds(state: EditorState, from: number, to: number, math: boolean, embeds: Embed[]) {
+  syntaxTree(state).iterate({
+    from,
+    to,
+    enter(ref) {
+      if (ref.to <= from || ref.from >= to) {
+        return false;
+      } else if (ref.name == "Image") {
+        const embed = imageEmbed(state, ref.node);
+        if (embed) embeds.push(embed);
+      } else if (/^(?:FencedCode|CodeBlock|HTMLBlock|CommentBlock)$/.test(ref.name)) {
+        return false;
+      } else if (math && /^(?:Paragraph|ATXHeading\d|SetextHeading\d|TableCell)$/.test(ref.name)) {
+        mathEmbeds(state, ref.node, embeds);
+      }
+      return undefined;
+    },
+  });
+}
+
+// Whether a selection range is inside or next to the embed's source,
+// in which case it is shown as text for editing. Revealing formulas
+// next to the cursor lets cursor motion enter them, since they are
+// atomic while rendered.
+function selectionInside(state: EditorState, from: number, to: number) {
+  return state.selection.ranges.some((r) =>
+    r.empty ? r.head >= from && r.head <= to : r.from < to && r.to > from
+  );
+}
+
+// Whether moving the selection changed which embeds show their source.
+// Only the embeds near the old and new selection are checked.
+function revealChanged(embeds: readonly Embed[], tr: Transaction) {
+  for (const range of tr.startState.selection.ranges.concat(tr.state.selection.ranges)) {
+    // Embeds don't overlap, so their ends are sorted like their starts.
+    let lo = 0,
+      hi = embeds.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (embeds[mid].to < range.from) lo = mid + 1;
+      else hi = mid;
+    }
+
+    for (let i = lo; i < embeds.length && embeds[i].from <= range.to; i++) {
+      const { from, to } = embeds[i];
+      if (selectionInside(tr.startState, from, to) != selectionInside(tr.state, from, to)) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+class EmbedState {
+  constructor(
+    readonly embeds: readonly Embed[],
+    // The top-level blocks of the tree that the embeds were found in.
+    readonly blocks: readonly TopBlock[],
+    readonly decorations: DecorationSet,
+    readonly atomic: DecorationSet
+  ) {}
+}
+
+function buildEmbedState(
+  state: EditorState,
+  embeds: readonly Embed[],
+  blocks: readonly TopBlock[],
+  config: MarkdownEmbedsConfig
+): EmbedState {
+  const decorations: Range<Decoration>[] = [];
+  const atomic: Range<Decoration>[] = [];
+  const { resolveImage = (url: string) => url, renderMath } = config;
+
+  for (const embed of embeds) {
+    const inside = selectionInside(state, embed.from, embed.to);
+
+    if (embed.type == "image") {
+      const src = inside ? null : resolveImage(embed.src);
+      if (src) {
+        decorations.push(
+          Decoration.widget({
+            widget: new ImageWidget(src, embed.alt),
+            block: true,
+            side: 1,
+          }).range(embed.line)
+        );
+      }
+    } else if (renderMath && !inside) {
+      const deco = Decoration.replace({
+        widget: new MathWidget(embed.source, embed.display, renderMath),
+      });
+      decorations.push(deco.range(embed.from, embed.to));
+      atomic.push(deco.range(embed.from, embed.to));
+    }
+  }
+
+  return new EmbedState(
+    embeds,
+    blocks,
+    Decoration.set(decorations, true),
+    Decoration.set(atomic, true)
+  );
+}
+
+// Find the embeds after a change to the document or its syntax tree.
+// Blocks that were left alone keep their embeds, moved through the
+// changes, and only new or changed blocks are scanned.
+function updateEmbeds(value: EmbedState, tr: Transaction, math: boolean) {
+  const { changes, state } = tr;
+  const blocks = topBlocks(syntaxTree(state));
+  const unchanged = unchangedBlocks(value.blocks, changes);
+
+  const embeds: Embed[] = [];
+  let i = 0;
+
+  for (const block of blocks) {
+    if (!unchanged(block)) {
+      scanEmbeds(state, block.from, block.to, math, embeds);
+      continue;
+    }
+
+    for (; i < value.embeds.length; i++) {
+      const embed = value.embeds[i],
+        from = changes.mapPos(embed.from, 1);
+      if (from >= block.to) break;
+      if (from < block.from) continue;
+
+      const to = changes.mapPos(embed.to, -1);
+      embeds.push(
+        embed.type == "image"
+          ? { ...embed, from, to, line: changes.mapPos(embed.line, -1) }
+          : { ...embed, from, to }
+      );
+    }
+  }
+
+  return { embeds: embeds.sort((a, b) => a.from - b.from), blocks };
+}
+
+function embedField(config: MarkdownEmbedsConfig) {
+  const math = !!config.renderMath;
+
+  return StateField.define<EmbedState>({
+    create(state) {
+      const embeds: Embed[] = [];
+      scanEmbeds(state, 0, state.doc.length, math, embeds);
+      embeds.sort((a, b) => a.from - b.from);
+      return buildEmbedState(state, embeds, topBlocks(syntaxTree(state)), config);
+    },
+    update(value, tr: Transaction) {
+      if (tr.docChanged || syntaxTree(tr.state) != syntaxTree(tr.startState)) {
+        const { embeds, blocks } = updateEmbeds(value, tr, math);
+        return buildEmbedState(tr.state, embeds, blocks, config);
+      }
+
+      return tr.selection && revealChanged(value.embeds, tr)
+        ? buildEmbedState(tr.state, value.embeds, value.blocks, config)
+        : value;
+    },
+    provide: (f) => [
+      EditorView.decorations.from(f, (value) => value.decorations),
+      EditorView.atomicRanges.of((view) => view.state.field(f).atomic),
+    ],
+  });
+}
+
+// Clicking a rendered formula moves the cursor into its source, which
+// reveals the source for editing.
+const revealOnClick = EditorView.domEventHandlers({
+  mousedown(event, view) {
+    const target = (event.target as HTMLElement).closest?.(".cm-markdownMath");
+    if (!target || !view.contentDOM.contains(target)) return false;
+
+    const pos = view.posAtDOM(target);
+    view.dispatch({ selection: { anchor: pos + 1 } });
+    event.preventDefault();
+    return true;
+  },
+});
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-markdownImage": {
+    padding: "4px 0",
+    "& img": { maxWidth: "100%", maxHeight: "20em", display: "block" },
+  },
+  ".cm-markdownMath": { cursor: "pointer" },
+  ".cm-markdownMath-display": { display: "block", textAlign: "center", padding: "4px 0" },
+  ".cm-markdownMath-error": { color: "#d11" },
+});
+
+/// Returns an extension that shows images below the lines that
+/// reference them, and, when a `renderMath` function is provided,
+/// renders `$...$` and `$$...$$` math in place. Embeds go back to
+/// showing their source while the selection is inside them or the
+/// cursor is next to them, and rendered formulas are treated as
+/// [atomic ranges](#view.EditorView^atomicRanges) by cursor motion,
+/// so that moving the cursor onto a formula stops before it first.
+export function markdownEmbeds(config: MarkdownEmbedsConfig = {}): Extension {
+  return [embedField(config), revealOnClick, baseTheme];
+}
@@ -0,0 +1,200 @@
+import { EditorState } from "@/state/index";
+import { Command, EditorView } from "@/view/index";
+import { syntaxTree, ensureSyntaxTree, HighlightStyle } from "@/language/index";
+import { getHighlighters } from "@/language/highlight";
+import { Tree } from "@lezer/common";
+import { Highlighter, highlightTree } from "@lezer/highlight";
+import { Parser, HtmlRenderer, Node } from "commonmark";
+import { markdownHeadings } from "./outline";
+
+/// Options for [`exportMarkdown`](#lang-markdown.exportMarkdown).
+export interface MarkdownExportConfig {
+  /// Produce a complete HTML document, with the CSS needed to show
+  /// the highlighted code embedded in it, instead of a fragment.
+  /// Defaults to false.
+  standalone?: boolean;
+  /// The title of a standalone document. Defaults to the text of the
+  /// first heading in the document.
+  title?: string;
+  /// Extra CSS to add to a standalone document.
+  css?: string;
+  /// The highlighter(s) to use for fenced code. Defaults to the
+  /// highlighters active in the state.
+  highlighter?: Highlighter | readonly Highlighter[];
+  /// Leave out raw HTML and links with potentially unsafe URLs (such
+  /// as `javascript:`). Defaults to false.
+  safe?: boolean;
+}
+
+function escapeHTML(text: string) {
+  return text.replace(/[<>&"]/g, (ch) =>
+    ch == "<" ? "&lt;" : ch == ">" ? "&gt;" : ch == "&" ? "&amp;" : "&quot;"
+  );
+}
+
+function highlightCode(
+  state: EditorState,
+  tree: Tree,
+  highlighter: Highlighter | readonly Highlighter[],
+  from: number,
+  to: number
+) {
+  let html = "",
+    pos = from;
+
+  highlightTree(
+    tree,
+    highlighter,
+    (start, end, cls) => {
+      if (start > pos) html += escapeHTML(state.sliceDoc(pos, start));
+      html += `<span class="${cls}">${escapeHTML(state.sliceDoc(start, end))}</span>`;
+      pos = end;
+    },
+    from,
+    to
+  );
+
+  return html + escapeHTML(state.sliceDoc(pos, to));
+}
+
+// Replace the given code block with its highlighted form, which is
+// taken from the editor's syntax tree so that code uses the
+// languages the editor is configured with. Leaves blocks whose text
+// in the tree doesn't match the parsed content (for example because
+// they are nested in a blockquote) alone.
+function highlightCodeBlock(
+  state: EditorState,
+  tree: Tree,
+  highlighter: Highlighter | readonly Highlighter[],
+  block: Node
+) {
+  const line = block.sourcepos[0][0];
+  if (line > state.doc.lines) return;
+
+  let node = tree.resolve(state.doc.line(line).from, 1);
+  while (node.name != "FencedCode" && node.parent) node = node.parent;
+  const code = node.name == "FencedCode" ? node.getChild("CodeText") : null;
+  const text = code ? state.sliceDoc(code.from, code.to) : "";
+
+  if (!code || (block.literal || "").replace(/\n$/, "") != text.replace(/\r\n?/g, "\n")) {
+    return;
+  }
+
+  const lang = (block.info || "").split(/\s/)[0];
+  const custom = new Node("custom_block");
+  custom.onEnter =
+    `<pre><code${lang ? ` class="language-${escapeHTML(lang)}"` : ""}>` +
+    highlightCode(state, tree, highlighter, code.from, code.to) +
+    "\n</code></pre>";
+  block.insertBefore(custom);
+  block.unlink();
+}
+
+const documentStyle = `body {
+  max-width: 48em;
+  margin: 2em auto;
+  padding: 0 1em;
+  font-family: system-ui, sans-serif;
+  line-height: 1.5;
+}
+pre {
+  padding: 0.5em 1em;
+  overflow-x: auto;
+  background: #f5f5f5;
+}
+code {
+  font-family: monospace;
+}
+blockquote {
+  margin-left: 0;
+  padding-left: 1em;
+  border-left: 3px solid #ddd;
+  color: #555;
+}
+img {
+  max-width: 100%;
+}`;
+
+function highlightRules(highlighter: Highlighter | readonly Highlighter[]) {
+  const highlighters = Array.isArray(highlighter) ? highlighter : [highlighter];
+  return highlighters
+    .map((h: Highlighter) => (h instanceof HighlightStyle && h.module ? h.module.getRules() : ""))
+    .filter((rules) => rules)
+    .join("\n");
+}
+
+/// Render the Markdown document in the given state to HTML, either
+/// as a fragment or, with the `standalone` option, as a complete
+/// document. Fenced code is highlighted with the editor's
+/// [highlight style](#language.HighlightStyle) and the languages it
+/// uses for code blocks.
+export function exportMarkdown(state: EditorState, config: MarkdownExportConfig = {}): string {
+  const { standalone = false, css = "", safe = false } = config;
+  const highlighter = config.highlighter || getHighlighters(state) || [];
+  const tree = ensureSyntaxTree(state, state.doc.length, 1000) || syntaxTree(state);
+  const parsed = new Parser().parse(state.doc.sliceString(0, state.doc.length, "\n"));
+  const blocks: Node[] = [];
+
+  for (let walker = parsed.walker(), step; (step = walker.next()); ) {
+    if (step.entering && step.node.type == "code_block" && step.node.info != null) {
+      blocks.push(step.node);
+    }
+  }
+
+  for (const block of blocks) highlightCodeBlock(state, tree, highlighter, block);
+
+  const body = new HtmlRenderer({ safe }).render(parsed);
+
+  if (!standalone) {
+    return body;
+  }
+
+  const title = config.title ?? markdownHeadings(state, tree)[0]?.text ?? "";
+  const style = [documentStyle, highlightRules(highlighter), css].filter((s) => s).join("\n");
+
+  return (
+    "<!doctype html>\n" +
+    "<html>\n<head>\n" +
+    '<meta charset="utf-8">\n' +
+    `<title>${escapeHTML(title)}</title>\n` +
+    `<style>\n${style}\n</style>\n` +
+    "</head>\n<body>\n" +
+    body +
+    "</body>\n</html>\n"
+  );
+}
+
+function download(html: string, title: string) {
+  const link = document.createElement("a");
+  const name = title.replace(/[\\/:*?"<>|]+/g, "").trim() || "document";
+  link.href = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  link.download = name + ".html";
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
+
+/// Create a command that exports the editor's document with
+/// [`exportMarkdown`](#lang-markdown.exportMarkdown). By default,
+/// the result is saved as a standalone HTML file. Pass an `output`
+/// function to handle the HTML in some other way.
+export function exportMarkdownCommand(
+  config: MarkdownExportConfig & {
+    output?: (html: string, view: EditorView) => void;
+  } = {}
+): Command {
+  const { output, ...options } = config;
+
+  return (view) => {
+    const exportConfig = { standalone: true, ...options };
+    const html = exportMarkdown(view.state, exportConfig);
+
+    if (output) {
+      output(html, view);
+    } else {
+      const title = exportConfig.title ?? markdownHeadings(view.state)[0]?.text ?? "";
+      download(html, title);
+    }
+
+    return true;
+  };
+}
@@ -0,0 +1,162 @@
+import { StateCommand, EditorState, EditorSelection } from "@/state/index";
+import { syntaxTree, foldNodeProp } from "@/language/index";
+import { MarkdownConfig, Line } from "@lezer/markdown";
+import { SyntaxNode } from "@lezer/common";
+import { tags } from "@lezer/highlight";
+import { normalizeLabel } from "./preview";
+
+const definitionRE = /^\[\^([^\]\s]+)\]:[ \t]*/;
+const referenceRE = /^\[\^([^\]\s]+)\]/;
+
+function isDefinition(line: Line) {
+  return line.indent < line.baseIndent + 4 && definitionRE.test(line.text.slice(line.pos));
+}
+
+/// A Markdown parser extension for footnotes. References are written
+/// `[^label]`, and definitions `[^label]: text`, with the content of
+/// a definition continuing on lines indented by four spaces.
+/// Definitions can be folded.
+export const Footnote: MarkdownConfig = {
+  defineNodes: [
+    {
+      name: "FootnoteDefinition",
+      block: true,
+      composite(_cx, line, value) {
+        if (line.indent < line.baseIndent + value && line.next > -1) return false;
+        line.moveBaseColumn(line.baseIndent + value);
+        return true;
+      },
+    },
+    { name: "FootnoteReference", style: tags.link },
+    { name: "FootnoteMark", style: tags.processingInstruction },
+    { name: "FootnoteLabel", style: tags.labelName },
+  ],
+  parseBlock: [
+    {
+      name: "FootnoteDefinition",
+      before: "LinkReference",
+      parse(cx, line) {
+        if (!isDefinition(line)) {
+          return false;
+        }
+
+        const match = definitionRE.exec(line.text.slice(line.pos))!;
+        const start = cx.lineStart + line.pos,
+          labelEnd = start + 2 + match[1].length;
+
+        cx.startComposite("FootnoteDefinition", line.pos, 4);
+        cx.addElement(cx.elt("FootnoteMark", start, start + 2));
+        cx.addElement(cx.elt("FootnoteLabel", start + 2, labelEnd));
+        cx.addElement(cx.elt("FootnoteMark", labelEnd, labelEnd + 2));
+        line.moveBase(line.pos + match[0].length);
+        return null;
+      },
+      endLeaf: (_cx, line) => isDefinition(line),
+    },
+  ],
+  parseInline: [
+    {
+      name: "FootnoteReference",
+      before: "Link",
+      parse(cx, next, pos) {
+        if (next != 91 /* '[' */ || cx.char(pos + 1) != 94 /* '^' */) {
+          return -1;
+        }
+
+        const match = referenceRE.exec(cx.slice(pos, cx.end));
+
+        if (!match) {
+          return -1;
+        }
+
+        const end = pos + match[0].length;
+
+        return cx.addElement(
+          cx.elt("FootnoteReference", pos, end, [
+            cx.elt("FootnoteMark", pos, pos + 2),
+            cx.elt("FootnoteLabel", pos + 2, end - 1),
+            cx.elt("FootnoteMark", end - 1, end),
+          ])
+        );
+      },
+    },
+  ],
+  props: [
+    foldNodeProp.add({
+      FootnoteDefinition: (tree, state) => {
+        const from = state.doc.lineAt(tree.from).to;
+        return from < tree.to ? { from, to: tree.to } : null;
+      },
+    }),
+  ],
+};
+
+function footnoteLabel(state: EditorState, node: SyntaxNode) {
+  const label = node.getChild("FootnoteLabel");
+  return label ? normalizeLabel(state.sliceDoc(label.from, label.to)) : null;
+}
+
+function footnoteAt(state: EditorState, pos: number) {
+  for (
+    let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, 0);
+    node;
+    node = node.parent
+  ) {
+    if (node.name == "FootnoteReference") {
+      return node;
+    }
+
+    // Only the `[^label]:` part of a definition counts, not its
+    // content.
+    if (node.name == "FootnoteDefinition") {
+      const label = node.getChild("FootnoteLabel");
+      return label && pos <= label.to + 2 ? node : null;
+    }
+  }
+
+  return null;
+}
+
+/// Move the cursor between a footnote reference and its definition.
+/// On a reference (`[^label]`), this jumps to the definition. On the
+/// label of a definition, it jumps to the next reference to that
+/// footnote, wrapping around to the first.
+export const gotoFootnote: StateCommand = ({ state, dispatch }) => {
+  const head = state.selection.main.head;
+  const node = footnoteAt(state, head);
+  const label = node && footnoteLabel(state, node);
+
+  if (!node || !label) {
+    return false;
+  }
+
+  const targets: SyntaxNode[] = [];
+  const type = node.name == "FootnoteReference" ? "FootnoteDefinition" : "FootnoteReference";
+
+  syntaxTree(state).iterate({
+    enter(ref) {
+      if (ref.name == type && footnoteLabel(state, ref.node) == label) {
+        targets.push(ref.node);
+      }
+
+      return /^(?:FencedCode|CodeBlock|HTMLBlock|CommentBlock)$/.test(ref.name) ? false : undefined;
+    },
+  });
+
+  const target = targets.find((t) => t.from > node.from) || targets[0];
+
+  if (!target || target.from == node.from) {
+    return false;
+  }
+
+  const labelNode = target.getChild("FootnoteLabel")!;
+  dispatch(
+    state.update({
+      selection: EditorSelection.cursor(labelNode.from),
+      scrollIntoView: true,
+      userEvent: "select",
+    })
+  );
+
+  return true;
+};
@@ -0,0 +1,394 @@
+import { EditorState, StateField } from "@/state/index";
+import { StreamLanguage, StringStream, syntaxTree } from "@/language/index";
+import { MarkdownConfig, MarkdownParser } from "@lezer/markdown";
+import { Input, Parser, TreeFragment, parseMixed } from "@lezer/common";
+import { tags } from "@lezer/highlight";
+
+interface YAMLState {
+  // Whether the tokenizer is past the `:` of a key on this line.
+  value: boolean;
+}
+
+/// A minimal YAML [stream language](#language.StreamLanguage), used
+/// to highlight front matter.
+export const yamlFrontMatterLanguage = StreamLanguage.define<YAMLState>({
+  name: "yaml",
+  startState: () => ({ value: false }),
+  copyState: (state) => ({ value: state.value }),
+  token(stream: StringStream, state: YAMLState) {
+    if (stream.sol()) state.value = false;
+    if (stream.eatSpace()) return null;
+
+    const ch = stream.peek();
+
+    if (ch == "#" && (stream.pos == 0 || /\s/.test(stream.string.charAt(stream.pos - 1)))) {
+      stream.skipToEnd();
+      return "comment";
+    }
+
+    if (ch == '"' || ch == "'") {
+      stream.next();
+      for (let next; (next = stream.next()) != null; ) {
+        if (next == ch) break;
+        if (next == "\\" && ch == '"') stream.next();
+      }
+      return "string";
+    }
+
+    if (!state.value && stream.match(/^-(?=\s|$)/)) {
+      return "punctuation";
+    }
+
+    if (!state.value && stream.match(/^[^\s#:][^#]*?(?=\s*:(?:\s|$))/)) {
+      return "propertyName";
+    }
+
+    if (stream.match(/^:(?=\s|$)/)) {
+      state.value = true;
+      return "punctuation";
+    }
+
+    if (stream.match(/^[[\]{},]/)) {
+      return "punctuation";
+    }
+
+    if (stream.match(/^(?:true|false|yes|no|null|~)(?=[\s,\]}]|$)/i)) {
+      return "atom";
+    }
+
+    if (stream.match(/^[-+]?\d+(?:\.\d+)?(?=[\s,\]}]|$)/)) {
+      return "number";
+    }
+
+    if (stream.match(/^[&*!][^\s,\]}]*/) || stream.match(/^[|>][-+]?(?=\s|$)/)) {
+      return "meta";
+    }
+
+    if (!stream.match(/^[^\s#,\]}]+/)) stream.next();
+    return "string";
+  },
+  languageData: {
+    commentTokens: { line: "#" },
+  },
+});
+
+const fence = /^---[ \t]*$/,
+  closingFence = /^(?:---|\.\.\.)[ \t]*$/;
+
+// Read the line that starts at `pos`.
+function lineAt(input: Input, pos: number) {
+  let text = "",
+    end = pos;
+
+  while (end < input.length) {
+    const chunk = input.chunk(end),
+      newline = chunk.indexOf("\n");
+    text += newline < 0 ? chunk : chunk.slice(0, newline);
+    end += newline < 0 ? chunk.length : newline;
+    if (newline > -1) break;
+  }
+
+  return { text, end };
+}
+
+// Whether one of the lines starting at `pos` is a closing fence.
+function hasClosingFence(input: Input, pos: number) {
+  while (pos < input.length) {
+    const line = lineAt(input, pos);
+
+    if (closingFence.test(line.text)) {
+      return true;
+    }
+
+    pos = line.end + 1;
+  }
+
+  return false;
+}
+
+const parseContent = parseMixed((node) =>
+  node.type.name == "FrontMatterContent" ? { parser: yamlFrontMatterLanguage.parser } : null
+);
+
+// Whether the document starts with front matter depends on lines
+// further down: a thematic break at the start becomes front matter
+// when a closing fence is added after it. So the tree for the first
+// line is never reused from a previous parse.
+class FrontMatterParser extends Parser {
+  constructor(readonly markdown: MarkdownParser) {
+    super();
+  }
+
+  createParse(
+    input: Input,
+    fragments: readonly TreeFragment[],
+    ranges: readonly { from: number; to: number }[]
+  ) {
+    const [first] = fragments;
+
+    if (first && first.from == 0 && fence.test(lineAt(input, 0).text)) {
+      fragments = fragments.slice(1);
+      if (first.to > 1)
+        fragments = [
+          new TreeFragment(1, first.to, first.tree, first.offset, true, first.openEnd),
+          ...fragments,
+        ];
+    }
+
+    return this.markdown.createParse(input, fragments, ranges);
+  }
+}
+
+// Wrap a Markdown parser that includes the `FrontMatter` extension so
+// that front matter is found when its closing fence is added later.
+export function frontMatterParser(parser: MarkdownParser): Parser {
+  return new FrontMatterParser(parser);
+}
+
+/// A Markdown parser extension that recognizes a block of YAML front
+/// matter, delimited by `---` lines, at the start of the document.
+/// The content of the block is parsed with
+/// [`yamlFrontMatterLanguage`](#lang-markdown.yamlFrontMatterLanguage).
+/// Without a closing `---` (or `...`) line, the first line is left to
+/// the regular Markdown parser, so that a document that starts with
+/// a thematic break is parsed as such. Use
+/// [`markdown`](#lang-markdown.markdown)'s `frontMatter` option to
+/// have front matter recognized when its closing line is typed after
+/// the document was first parsed.
+export const FrontMatter: MarkdownConfig = {
+  defineNodes: [
+    { name: "FrontMatter", block: true },
+    { name: "FrontMatterMark", style: tags.processingInstruction },
+    { name: "FrontMatterContent" },
+  ],
+  parseBlock: [
+    {
+      name: "FrontMatter",
+      before: "HorizontalRule",
+      parse(cx, line) {
+        // The block context doesn't provide a way to look ahead, so the
+        // following lines are read from its input, like the GFM table
+        // parser does.
+        const { input } = cx as unknown as { input: Input };
+
+        if (
+          cx.lineStart != 0 ||
+          line.pos != 0 ||
+          !fence.test(line.text) ||
+          !hasClosingFence(input, line.text.length + 1)
+        ) {
+          return false;
+        }
+
+        const children = [cx.elt("FrontMatterMark", 0, 3)];
+        let contentFrom = -1,
+          contentTo = -1;
+
+        while (cx.nextLine() && !closingFence.test(line.text)) {
+          if (contentFrom < 0) contentFrom = cx.lineStart;
+          contentTo = cx.lineStart + line.text.length;
+        }
+
+        if (contentFrom > -1) {
+          children.push(cx.elt("FrontMatterContent", contentFrom, contentTo));
+        }
+
+        const end = cx.lineStart + line.text.length;
+        children.push(cx.elt("FrontMatterMark", cx.lineStart, cx.lineStart + 3));
+        cx.nextLine();
+        cx.addElement(cx.elt("FrontMatter", 0, end, children));
+        return true;
+      },
+    },
+  ],
+  wrap: parseContent,
+};
+
+/// The type of values found in front matter.
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue };
+
+function parseScalar(text: string): FrontMatterValue {
+  text = text.replace(/(?:^|\s+)#.*$/, "").trim();
+
+  if (/^".*"$/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch (_) {
+      return text.slice(1, -1);
+    }
+  }
+
+  if (/^'.*'$/.test(text)) return text.slice(1, -1).replace(/''/g, "'");
+  if (/^\[.*\]$/.test(text)) return splitFlow(text.slice(1, -1)).map(parseScalar);
+  if (/^(?:null|~)?$/.test(text)) return null;
+  if (/^(?:true|yes)$/i.test(text)) return true;
+  if (/^(?:false|no)$/i.test(text)) return false;
+  if (/^[-+]?\d+(?:\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+// Split the content of a flow sequence at commas outside of quotes
+// and nested brackets.
+function splitFlow(text: string) {
+  const parts: string[] = [];
+  let depth = 0,
+    start = 0,
+    quote = "";
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch == quote) quote = "";
+    } else if (ch == '"' || ch == "'") {
+      quote = ch;
+    } else if (ch == "[" || ch == "{") {
+      depth++;
+    } else if (ch == "]" || ch == "}") {
+      depth--;
+    } else if (ch == "," && !depth) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  if (text.slice(start).trim()) parts.push(text.slice(start));
+  return parts;
+}
+
+interface YAMLLine {
+  indent: number;
+  text: string;
+}
+
+// Parse the block of lines starting at `lines[pos]` that are indented
+// at least `indent` columns. Returns the value and the index of the
+// first line after the block.
+function parseBlock(lines: YAMLLine[], pos: number, indent: number): [FrontMatterValue, number] {
+  const first = lines[pos];
+
+  if (!first || first.indent < indent) {
+    return [null, pos];
+  }
+
+  indent = first.indent;
+
+  if (/^-(?:\s|$)/.test(first.text)) {
+    const list: FrontMatterValue[] = [];
+
+    while (
+      pos < lines.length &&
+      lines[pos].indent == indent &&
+      /^-(?:\s|$)/.test(lines[pos].text)
+    ) {
+      const item = lines[pos].text.slice(1).trim();
+      pos++;
+
+      if (item) {
+        list.push(parseScalar(item));
+      } else {
+        const [value, next] = parseBlock(lines, pos, indent + 1);
+        list.push(value);
+        pos = next;
+      }
+    }
+
+    return [list, pos];
+  }
+
+  const map: { [key: string]: FrontMatterValue } = {};
+
+  while (pos < lines.length && lines[pos].indent == indent) {
+    const match = /^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*)|$)/.exec(lines[pos].text);
+    pos++;
+    if (!match) continue;
+
+    const key = match[1].replace(/^(["'])(.*)\1$/, "$2");
+    const rest = (match[2] || "").trim();
+
+    if (/^[|>][-+]?$/.test(rest)) {
+      // A block scalar takes all more-indented lines.
+      const text: string[] = [];
+      while (pos < lines.length && lines[pos].indent > indent) text.push(lines[pos++].text);
+      map[key] = text.join(rest[0] == "|" ? "\n" : " ");
+    } else if (rest && !/^#/.test(rest)) {
+      map[key] = parseScalar(rest);
+    } else {
+      // Lists under a key are often not indented.
+      const list = pos < lines.length && /^-(?:\s|$)/.test(lines[pos].text);
+      const [value, next] = parseBlock(lines, pos, list ? indent : indent + 1);
+      map[key] = value;
+      pos = next;
+    }
+  }
+
+  return [map, pos];
+}
+
+/// Parse the (common subset of) YAML found in front matter: nested
+/// maps and lists, flow sequences, block scalars, and plain or quoted
+/// scalar values.
+export function parseFrontMatter(text: string): { [key: string]: FrontMatterValue } {
+  const lines: YAMLLine[] = [];
+
+  for (const line of text.split(/\r\n?|\n/)) {
+    if (!line.trim() || /^\s*#/.test(line)) continue;
+    const indent = /^\s*/.exec(line)![0].length;
+    lines.push({ indent, text: line.slice(indent) });
+  }
+
+  const [value] = parseBlock(lines, 0, 0);
+  return value && typeof value == "object" && !Array.isArray(value) ? value : {};
+}
+
+/// The front matter of a document, as stored in
+/// [`frontMatterState`](#lang-markdown.frontMatterState).
+export interface FrontMatterData {
+  /// The start of the front matter block.
+  from: number;
+  /// The end of the front matter block.
+  to: number;
+  /// The parsed key/value pairs, such as `title` and `tags`.
+  data: { [key: string]: FrontMatterValue };
+}
+
+function readFrontMatter(state: EditorState): FrontMatterData | null {
+  const node = syntaxTree(state).topNode.firstChild;
+
+  if (!node || node.name != "FrontMatter") {
+    return null;
+  }
+
+  // The content node is replaced by the mounted YAML tree, so find
+  // the content from the position of the fences.
+  const [open, close] = node.getChildren("FrontMatterMark");
+  const data = parseFrontMatter(state.sliceDoc(open.to, close ? close.from : node.to));
+  return { from: node.from, to: node.to, data };
+}
+
+/// A state field holding the parsed front matter of the document, or
+/// null when it doesn't start with front matter. It is installed by
+/// [`markdown`](#lang-markdown.markdown) when its `frontMatter`
+/// option is enabled.
+export const frontMatterState = StateField.define<FrontMatterData | null>({
+  create: readFrontMatter,
+  update(value, tr) {
+    if (!tr.docChanged && syntaxTree(tr.state) == syntaxTree(tr.startState)) {
+      return value;
+    }
+
+    const next = readFrontMatter(tr.state);
+    return next &&
+      value &&
+      next.from == value.from &&
+      next.to == value.to &&
+      tr.state.sliceDoc(next.from, next.to) == tr.startState.sliceDoc(value.from, value.to)
+      ? value
+      : next;
+  },
+});
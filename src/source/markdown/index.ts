@@ -5,8 +5,84 @@ import { Completion, CompletionContext } from "@/autocomplete/index";
 import { MarkdownExtension, MarkdownParser, parseCode } from "@lezer/markdown";
 import { html, htmlCompletionSource } from "@codemirror/lang-html";
 import { commonmarkLanguage, markdownLanguage, mkLang, getCodeParser } from "./markdown";
-import { insertNewlineContinueMarkup, deleteMarkupBackward } from "./commands";
-export { commonmarkLanguage, markdownLanguage, insertNewlineContinueMarkup, deleteMarkupBackward };
+import {
+  insertNewlineContinueMarkup,
+  deleteMarkupBackward,
+  toggleStrong,
+  toggleEmphasis,
+  toggleStrikethrough,
+  toggleInlineCode,
+  toggleLink,
+  toggleImage,
+  cycleHeading,
+  toggleBlockquote,
+  toggleBulletList,
+  toggleOrderedList,
+  toggleTaskList,
+  renumberOrderedList,
+  indentListItem,
+  outdentListItem,
+} from "./commands";
+import { toggleTaskItem } from "./tasks";
+import { FrontMatter, frontMatterState, frontMatterParser } from "./front-matter";
+import { headingSymbols } from "./outline";
+export {
+  commonmarkLanguage,
+  markdownLanguage,
+  insertNewlineContinueMarkup,
+  deleteMarkupBackward,
+  toggleStrong,
+  toggleEmphasis,
+  toggleStrikethrough,
+  toggleInlineCode,
+  toggleLink,
+  toggleImage,
+  cycleHeading,
+  toggleBlockquote,
+  toggleBulletList,
+  toggleOrderedList,
+  toggleTaskList,
+  toggleTaskItem,
+  renumberOrderedList,
+  indentListItem,
+  outdentListItem,
+};
+export { taskCheckboxes } from "./tasks";
+export { markdownOutline, markdownHeadings } from "./outline";
+export type { MarkdownHeading } from "./outline";
+export { markdownLinter } from "./lint";
+export { markdownCompletionSource, commonEmoji } from "./complete";
+export type { MarkdownPathProvider } from "./complete";
+export { markdownEmbeds } from "./embeds";
+export { markdownLivePreview } from "./live-preview";
+export { markdownPaste, htmlToMarkdown } from "./paste";
+export { exportMarkdown, exportMarkdownCommand } from "./export";
+export {
+  FrontMatter,
+  frontMatterState,
+  parseFrontMatter,
+  yamlFrontMatterLanguage,
+} from "./front-matter";
+export type { FrontMatterData, FrontMatterValue } from "./front-matter";
+export { Footnote, gotoFootnote } from "./footnotes";
+export { insertTableOfContents, toggleHeadingNumbers } from "./toc";
+export { WikiLink, wikiLinkCompletionSource } from "./wiki-links";
+export type { WikiPageProvider } from "./wiki-links";
+export type { MarkdownExportConfig } from "./export";
+export { markdownPreview } from "./preview";
+export {
+  formatTable,
+  nextTableCell,
+  previousTableCell,
+  insertNewlineInTable,
+  insertTableRow,
+  deleteTableRow,
+  insertTableColumn,
+  deleteTableColumn,
+  setTableColumnAlignment,
+  markdownTableKeymap,
+} from "./table";
+export type { Align } from "./table";
 
 /// A small keymap with Markdown-specific bindings. Binds Enter to
 /// [`insertNewlineContinueMarkup`](#lang-markdown.insertNewlineContinueMarkup)
@@ -17,6 +93,51 @@ export const markdownKeymap: readonly KeyBinding[] = [
   { key: "Backspace", run: deleteMarkupBackward },
 ];
 
+/// Key bindings for the Markdown formatting commands. Not included
+/// in [`markdown`](#lang-markdown.markdown) by default.
+///
+///  - Mod-b: [`toggleStrong`](#lang-markdown.toggleStrong)
+///  - Mod-i: [`toggleEmphasis`](#lang-markdown.toggleEmphasis)
+///  - Mod-Shift-x: [`toggleStrikethrough`](#lang-markdown.toggleStrikethrough)
+///  - Mod-e: [`toggleInlineCode`](#lang-markdown.toggleInlineCode)
+///  - Mod-k: [`toggleLink`](#lang-markdown.toggleLink)
+///  - Mod-Shift-k: [`toggleImage`](#lang-markdown.toggleImage)
+///  - Mod-Shift-h: [`cycleHeading`](#lang-markdown.cycleHeading)
+///  - Mod-Shift-.: [`toggleBlockquote`](#lang-markdown.toggleBlockquote)
+///  - Mod-Shift-8: [`toggleBulletList`](#lang-markdown.toggleBulletList)
+///  - Mod-Shift-7: [`toggleOrderedList`](#lang-markdown.toggleOrderedList)
+///  - Mod-Shift-9: [`toggleTaskList`](#lang-markdown.toggleTaskList)
+///  - Mod-Alt-x: [`toggleTaskItem`](#lang-markdown.toggleTaskItem)
+///
+/// Note that Mod-i is also bound to `selectParentSyntax` in the
+/// default keymap, so this keymap should be given a higher
+/// precedence.
+export const markdownFormattingKeymap: readonly KeyBinding[] = [
+  { key: "Mod-b", run: toggleStrong },
+  { key: "Mod-i", run: toggleEmphasis },
+  { key: "Mod-Shift-x", run: toggleStrikethrough },
+  { key: "Mod-e", run: toggleInlineCode },
+  { key: "Mod-k", run: toggleLink },
+  { key: "Mod-Shift-k", run: toggleImage },
+  { key: "Mod-Shift-h", run: cycleHeading },
+  { key: "Mod-Shift-.", run: toggleBlockquote },
+  { key: "Mod-Shift-8", run: toggleBulletList },
+  { key: "Mod-Shift-7", run: toggleOrderedList },
+  { key: "Mod-Shift-9", run: toggleTaskList },
+  { key: "Mod-Alt-x", run: toggleTaskItem },
+];
+
+/// Key bindings for restructuring lists. These only apply when the
+/// selection is in a list item that can be moved, and return false
+/// elsewhere. Not included in [`markdown`](#lang-markdown.markdown)
+/// by default.
+///
+///  - Tab: [`indentListItem`](#lang-markdown.indentListItem)
+///  - Shift-Tab: [`outdentListItem`](#lang-markdown.outdentListItem)
+export const markdownListKeymap: readonly KeyBinding[] = [
+  { key: "Tab", run: indentListItem, shift: outdentListItem },
+];
+
 const htmlNoMatch = html({ matchClosingTags: false });
 
 /// Markdown language support.
@@ -53,6 +174,13 @@ export function markdown(
     /// tag matching turned off. You can pass in an alternative language
     /// configuration here if you want.
     htmlTagLanguage?: LanguageSupport;
+    /// When enabled, a block of YAML [front
+    /// matter](#lang-markdown.FrontMatter) at the start of the
+    /// document is parsed as such, and its key/value pairs are made
+    /// available through
+    /// [`frontMatterState`](#lang-markdown.frontMatterState).
+    /// Defaults to false.
+    frontMatter?: boolean;
   } = {}
 ) {
   const {
@@ -62,6 +190,7 @@ export function markdown(
     base: { parser } = commonmarkLanguage,
     completeHTMLTags = true,
     htmlTagLanguage = htmlNoMatch,
+    frontMatter = false,
   } = config;
 
   if (!(parser instanceof MarkdownParser)) {
@@ -71,6 +200,11 @@ export function markdown(
   const extensions = config.extensions ? [config.extensions] : [];
   const support = [htmlTagLanguage.support];
 
+  if (frontMatter) {
+    extensions.push(FrontMatter);
+    support.push(frontMatterState);
+  }
+
   let defaultCode!: Language;
   if (defaultCodeLanguage instanceof LanguageSupport) {
     support.push(defaultCodeLanguage.support);
@@ -87,7 +221,10 @@ export function markdown(
     support.push(Prec.high(keymap.of(markdownKeymap)));
   }
 
-  const lang = mkLang(parser.configure(extensions));
+  const configured = parser.configure(extensions);
+  const lang = mkLang(frontMatter ? frontMatterParser(configured) : configured);
+
+  support.push(lang.data.of({ symbols: headingSymbols }));
 
   if (completeHTMLTags) {
     support.push(lang.data.of({ autocomplete: htmlTagCompletion }));
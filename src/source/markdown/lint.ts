@@ -0,0 +1,307 @@
+import { EditorState } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { syntaxTree, ensureSyntaxTree } from "@/language/index";
+import { Diagnostic, LintSource } from "@/lint/lint";
+import { SyntaxNode, Tree } from "@lezer/common";
+import { normalizeLabel } from "./preview";
+import { markdownHeadings, headingSlugs } from "./outline";
+
+interface MarkdownLintConfig {
+  /// Report full (`[text][label]`) and collapsed (`[label][]`)
+  /// reference links whose label has no definition. Defaults to true.
+  undefinedReferences?: boolean;
+  /// Report link reference definitions that repeat an earlier label.
+  /// Defaults to true.
+  duplicateReferences?: boolean;
+  /// Report `#anchor` links that don't match any heading in the
+  /// document. Defaults to true.
+  brokenAnchors?: boolean;
+  /// Report headings that skip a level, such as a `###` heading
+  /// directly after a `#` heading. Defaults to true.
+  headingLevels?: boolean;
+  /// Report links without text. Defaults to true.
+  emptyLinks?: boolean;
+}
+
+const enum Lint {
+  // Maximum time (ms) to spend finishing the parse before linting.
+  ParseTimeout = 200,
+}
+
+// The range of the text of a link or image, between `[` and `]`.
+function linkText(node: SyntaxNode) {
+  const open = node.firstChild;
+  let close = open && open.nextSibling;
+  while (close && close.name != "LinkMark") close = close.nextSibling;
+  return open && open.name == "LinkMark" && close ? { from: open.to, to: close.from } : null;
+}
+
+function editDistance(a: string, b: string) {
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next.push(Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + (a[i - 1] == b[j - 1] ? 0 : 1)));
+    }
+    row = next;
+  }
+
+  return row[b.length];
+}
+
+function closest(target: string, options: readonly string[]) {
+  let best: string | null = null,
+    bestDist = 1e9;
+
+  for (const option of options) {
+    const dist = editDistance(target, option);
+    if (dist < bestDist) {
+      best = option;
+      bestDist = dist;
+    }
+  }
+
+  // Don't suggest something that shares next to nothing with the
+  // original.
+  return best != null && bestDist <= Math.max(2, target.length / 2) ? best : null;
+}
+
+function decodeAnchor(anchor: string) {
+  try {
+    return decodeURIComponent(anchor);
+  } catch (_) {
+    return anchor;
+  }
+}
+
+function referenceDiagnostics(
+  state: EditorState,
+  tree: Tree,
+  config: Required<MarkdownLintConfig>,
+  diagnostics: Diagnostic[]
+) {
+  const defined = new Map<string, SyntaxNode>();
+
+  for (let node = tree.topNode.firstChild; node; node = node.nextSibling) {
+    const label = node.name == "LinkReference" && node.getChild("LinkLabel");
+    if (!label) continue;
+
+    const key = normalizeLabel(state.sliceDoc(label.from, label.to));
+    const first = defined.get(key);
+
+    if (!first) {
+      defined.set(key, label);
+    } else if (config.duplicateReferences) {
+      const line = state.doc.lineAt(first.from).number;
+      diagnostics.push({
+        from: label.from,
+        to: label.to,
+        severity: "warning",
+        source: "markdown",
+        message: state.phrase("Duplicate reference definition (first defined on line $)", line),
+        actions: [
+          {
+            name: state.phrase("Remove definition"),
+            apply(view: EditorView, from: number) {
+              const line = view.state.doc.lineAt(from);
+              const to = Math.min(view.state.doc.length, line.to + 1);
+              view.dispatch({ changes: { from: line.from, to }, userEvent: "delete" });
+            },
+          },
+        ],
+      });
+    }
+  }
+
+  if (!config.undefinedReferences) {
+    return;
+  }
+
+  tree.iterate({
+    enter(ref) {
+      if (ref.name != "Link" && ref.name != "Image") return;
+
+      const node = ref.node;
+      const label = node.getChild("LinkLabel");
+      if (!label || node.getChild("URL")) return;
+
+      const text = linkText(node);
+      const range = label.to - label.from > 2 ? label : text;
+      if (!range) return;
+
+      const name = state.sliceDoc(range.from, range.to).replace(/^\[|\]$/g, "");
+      const key = normalizeLabel(name);
+      if (!key || defined.has(key)) return;
+
+      diagnostics.push({
+        from: range.from,
+        to: range.to,
+        severity: "error",
+        source: "markdown",
+        message: state.phrase("Undefined reference '$'", name),
+        actions: [
+          {
+            name: state.phrase("Create reference definition"),
+            apply(view: EditorView) {
+              const { doc } = view.state;
+              const end = doc.length;
+              const prefix = !end ? "" : /\n\s*$/.test(doc.sliceString(end - 1)) ? "" : "\n";
+              const insert = `${prefix}\n[${name}]: `;
+              view.dispatch({
+                changes: { from: end, insert },
+                selection: { anchor: end + insert.length },
+                scrollIntoView: true,
+                userEvent: "input",
+              });
+              view.focus();
+            },
+          },
+        ],
+      });
+    },
+  });
+}
+
+function headingDiagnostics(state: EditorState, tree: Tree, diagnostics: Diagnostic[]) {
+  let prev = 0;
+
+  for (const heading of markdownHeadings(state, tree)) {
+    if (prev && heading.level > prev + 1) {
+      const level = prev + 1;
+      const atx = /^#/.test(state.sliceDoc(heading.from, heading.from + 1));
+
+      diagnostics.push({
+        from: heading.from,
+        to: heading.to,
+        severity: "warning",
+        source: "markdown",
+        message: state.phrase("Heading level skipped (expected level $ or lower)", level),
+        actions: atx
+          ? [
+              {
+                name: state.phrase("Change to level $", level),
+                apply(view: EditorView, from: number) {
+                  const marks = /^#+/.exec(view.state.sliceDoc(from, from + 6));
+                  if (marks) {
+                    view.dispatch({
+                      changes: { from, to: from + marks[0].length, insert: "#".repeat(level) },
+                      userEvent: "input",
+                    });
+                  }
+                },
+              },
+            ]
+          : [],
+      });
+    }
+
+    prev = heading.level;
+  }
+}
+
+function linkDiagnostics(
+  state: EditorState,
+  tree: Tree,
+  config: Required<MarkdownLintConfig>,
+  diagnostics: Diagnostic[]
+) {
+  const slugs = config.brokenAnchors ? headingSlugs(markdownHeadings(state, tree)) : [];
+
+  tree.iterate({
+    enter(ref) {
+      if (ref.name != "Link") return;
+
+      const node = ref.node;
+      const url = node.getChild("URL");
+      const text = linkText(node);
+      const target = url ? state.sliceDoc(url.from, url.to).replace(/^<|>$/g, "") : "";
+
+      if (config.emptyLinks && text && !/\S/.test(state.sliceDoc(text.from, text.to))) {
+        diagnostics.push({
+          from: node.from,
+          to: node.to,
+          severity: "warning",
+          source: "markdown",
+          message: state.phrase("Link has no text"),
+          actions: target
+            ? [
+                {
+                  name: state.phrase("Use URL as text"),
+                  apply(view: EditorView, from: number) {
+                    const open = view.state.sliceDoc(from, from + 1) == "[" ? from + 1 : from;
+                    const close = view.state.sliceDoc(open).indexOf("]");
+                    if (close < 0) return;
+                    view.dispatch({
+                      changes: { from: open, to: open + close, insert: target },
+                      userEvent: "input",
+                    });
+                  },
+                },
+              ]
+            : [],
+        });
+      }
+
+      if (config.brokenAnchors && url && /^#./.test(target)) {
+        const anchor = decodeAnchor(target.slice(1));
+        if (slugs.indexOf(anchor) > -1) return;
+
+        const suggestion = closest(anchor, slugs);
+        diagnostics.push({
+          from: url.from,
+          to: url.to,
+          severity: "warning",
+          source: "markdown",
+          message: state.phrase("No heading matches anchor '$'", target),
+          actions: suggestion
+            ? [
+                {
+                  name: state.phrase("Rename anchor to #$", suggestion),
+                  apply(view: EditorView, from: number, to: number) {
+                    view.dispatch({
+                      changes: { from, to, insert: "#" + suggestion },
+                      userEvent: "input",
+                    });
+                  },
+                },
+              ]
+            : [],
+        });
+      }
+    },
+  });
+}
+
+/// Create a [lint source](#lint.LintSource) that checks the links,
+/// references, and headings of a Markdown document, to be passed to
+/// [`linter`](#lint.linter). Most diagnostics come with actions that
+/// fix the problem.
+export function markdownLinter(config: MarkdownLintConfig = {}): LintSource {
+  const conf: Required<MarkdownLintConfig> = {
+    undefinedReferences: true,
+    duplicateReferences: true,
+    brokenAnchors: true,
+    headingLevels: true,
+    emptyLinks: true,
+    ...config,
+  };
+
+  return (view) => {
+    const { state } = view;
+    const tree = ensureSyntaxTree(state, state.doc.length, Lint.ParseTimeout) || syntaxTree(state);
+    const diagnostics: Diagnostic[] = [];
+
+    if (conf.undefinedReferences || conf.duplicateReferences) {
+      referenceDiagnostics(state, tree, conf, diagnostics);
+    }
+    if (conf.headingLevels) {
+      headingDiagnostics(state, tree, diagnostics);
+    }
+    if (conf.brokenAnchors || conf.emptyLinks) {
+      linkDiagnostics(state, tree, conf, diagnostics);
+    }
+
+    return diagnostics.sort((a, b) => a.from - b.from);
+  };
+}
@@ -0,0 +1,346 @@
+import { Extension, EditorState, StateField, Range, Transaction, ChangeSet } from "@/state/index";
+import { EditorView, Decoration, DecorationSet } from "@/view/index";
+import { syntaxTree } from "@/language/index";
+import { SyntaxNode } from "@lezer/common";
+import { TopBlock, topBlocks, unchangedBlocks } from "./markdown";
+
+interface LivePreviewConfig {
+  /// Hide emphasis, strong emphasis, and strikethrough markers.
+  /// Defaults to true.
+  emphasis?: boolean;
+  /// Hide the `#` markers of ATX headings. Defaults to true.
+  headings?: boolean;
+  /// Hide link brackets and URLs, leaving only the link text.
+  /// Defaults to true.
+  links?: boolean;
+  /// Hide the backticks around inline code. Defaults to true.
+  inlineCode?: boolean;
+  /// Hide the opening and closing lines of fenced code blocks.
+  /// Defaults to true.
+  codeFences?: boolean;
+}
+
+// A piece of markup that is hidden unless the selection touches the
+// lines from `lineFrom` to `lineTo`.
+class Markup {
+  constructor(
+    readonly from: number,
+    readonly to: number,
+    readonly lineFrom: number,
+    readonly lineTo: number,
+    readonly deco: Decoration
+  ) {}
+}
+
+const hide = Decoration.replace({});
+const hideLine = Decoration.replace({ block: true });
+const linkText = Decoration.mark({ class: "cm-livePreview-link" });
+
+// Collect the markup in the blocks between `from` and `to`.
+function collectMarkup(
+  state: EditorState,
+  from: number,
+  to: number,
+  config: Required<LivePreviewConfig>,
+  markup: Markup[]
+) {
+  const { doc } = state;
+  const start = markup.length;
+
+  const add = (from: number, to: number, deco: Decoration = hide, scope?: SyntaxNode) => {
+    if (from >= to) return;
+    markup.push(
+      new Markup(
+        from,
+        to,
+        doc.lineAt(scope ? scope.from : from).from,
+        doc.lineAt(scope ? scope.to : to).to,
+        deco
+      )
+    );
+  };
+
+  syntaxTree(state).iterate({
+    from,
+    to,
+    enter(ref) {
+      if (ref.to <= from || ref.from >= to) return false;
+      const node = ref.node;
+
+      switch (node.name) {
+        case "EmphasisMark":
+        case "StrikethroughMark":
+          if (config.emphasis) add(node.from, node.to);
+          break;
+        case "CodeMark":
+          if (config.inlineCode && node.parent?.name == "InlineCode") add(node.from, node.to);
+          break;
+        case "HeaderMark": {
+          const heading = node.parent;
+          if (!config.headings || !heading || !/^ATX/.test(heading.name)) break;
+          if (node.from == heading.from) {
+            const space = /^[ \t]*/.exec(state.sliceDoc(node.to, heading.to))![0].length;
+            add(node.from, node.to + space);
+          } else {
+            const space = /[ \t]*$/.exec(state.sliceDoc(heading.from, node.from))![0].length;
+            add(node.from - space, node.to);
+          }
+          break;
+        }
+        case "Link":
+        case "Autolink": {
+          if (!config.links) break;
+          const open = node.firstChild;
+          let close = open && open.nextSibling;
+          while (close && close.name != "LinkMark") close = close.nextSibling;
+          if (!open || !close) break;
+
+          if (node.name == "Autolink") {
+            add(open.from, open.to);
+            add(close.from, close.to);
+            add(open.to, close.from, linkText);
+          } else {
+            add(open.from, open.to);
+            add(close.from, node.to);
+            add(open.to, close.from, linkText);
+          }
+          return false;
+        }
+        case "FencedCode": {
+          if (!config.codeFences) return false;
+          const first = doc.lineAt(node.from);
+          add(first.from, first.to, hideLine, node);
+          const last = node.lastChild;
+          if (last && last.name == "CodeMark" && last.from > first.to) {
+            const line = doc.lineAt(last.from);
+            add(line.from, line.to, hideLine, node);
+          }
+          return false;
+        }
+        case "CodeBlock":
+        case "HTMLBlock":
+        case "CommentBlock":
+          return false;
+      }
+      return undefined;
+    },
+  });
+
+  markup.push(...markup.splice(start).sort((a, b) => a.from - b.from));
+}
+
+function touchesSelection(state: EditorState, from: number, to: number) {
+  return state.selection.ranges.some((r) => r.from <= to && r.to >= from);
+}
+
+// Find the index of the first piece of markup that starts at or
+// after `pos`.
+function markupAt(markup: readonly Markup[], pos: number) {
+  let lo = 0,
+    hi = markup.length;
+
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (markup[mid].from < pos) lo = mid + 1;
+    else hi = mid;
+  }
+
+  return lo;
+}
+
+// Find the index of the first block that ends at or after `pos`.
+function blockAt(blocks: readonly TopBlock[], pos: number) {
+  let lo = 0,
+    hi = blocks.length;
+
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (blocks[mid].to < pos) lo = mid + 1;
+    else hi = mid;
+  }
+
+  return lo;
+}
+
+type Region = { from: number; to: number };
+
+// Sort a set of regions and join the ones that overlap or touch.
+function joinRegions(regions: Region[]) {
+  const joined: Region[] = [];
+
+  for (const region of regions.sort((a, b) => a.from - b.from)) {
+    const last = joined[joined.length - 1];
+    if (last && last.to >= region.from) last.to = Math.max(last.to, region.to);
+    else joined.push({ from: region.from, to: region.to });
+  }
+
+  return joined;
+}
+
+class LivePreviewState {
+  constructor(
+    // The markup in the document, sorted by position.
+    readonly markup: readonly Markup[],
+    // The top-level blocks of the tree that the markup was found in.
+    readonly blocks: readonly TopBlock[],
+    readonly decorations: DecorationSet,
+    readonly hidden: DecorationSet
+  ) {}
+
+  static create(state: EditorState, config: Required<LivePreviewConfig>) {
+    const markup: Markup[] = [];
+    collectMarkup(state, 0, state.doc.length, config, markup);
+    const blocks = topBlocks(syntaxTree(state));
+
+    return new LivePreviewState(markup, blocks, Decoration.none, Decoration.none).redraw(state, [
+      { from: 0, to: state.doc.length },
+    ]);
+  }
+
+  update(tr: Transaction, config: Required<LivePreviewConfig>) {
+    const { changes, state } = tr;
+    const treeChanged = syntaxTree(state) != syntaxTree(tr.startState);
+    if (!tr.docChanged && !treeChanged && !tr.selection) return this;
+
+    let { markup, blocks } = this;
+    const dirty: Region[] = [];
+
+    if (tr.docChanged || treeChanged) {
+      ({ markup, blocks } = this.updateMarkup(tr, config, dirty));
+    }
+
+    // Markup whose lines the old or new selection touches may have to
+    // be shown or hidden again.
+    for (const selection of [tr.startState.selection.map(changes), state.selection]) {
+      for (const range of selection.ranges) {
+        const from = state.doc.lineAt(range.from).from,
+          to = state.doc.lineAt(range.to).to;
+
+        for (let i = blockAt(blocks, from); i < blocks.length && blocks[i].from <= to; i++) {
+          for (let j = markupAt(markup, blocks[i].from); j < markup.length; j++) {
+            const m = markup[j];
+            if (m.from > blocks[i].to) break;
+            if (m.lineFrom <= to && m.lineTo >= from) dirty.push(m);
+          }
+        }
+      }
+    }
+
+    return new LivePreviewState(
+      markup,
+      blocks,
+      this.decorations.map(changes),
+      this.hidden.map(changes)
+    ).redraw(state, joinRegions(dirty));
+  }
+
+  // Find the markup after a change to the document or its syntax
+  // tree. Blocks that didn't change keep their markup, and the others
+  // are scanned again and added to `dirty`.
+  updateMarkup(tr: Transaction, config: Required<LivePreviewConfig>, dirty: Region[]) {
+    const { changes, state } = tr;
+    const blocks = topBlocks(syntaxTree(state));
+    const unchanged = unchangedBlocks(this.blocks, changes);
+    const markup: Markup[] = [];
+    let i = 0;
+
+    for (const block of blocks) {
+      if (!unchanged(block)) {
+        collectMarkup(state, block.from, block.to, config, markup);
+        dirty.push(block);
+        continue;
+      }
+
+      for (; i < this.markup.length; i++) {
+        const m = this.markup[i],
+          from = changes.mapPos(m.from, 1);
+        if (from >= block.to) break;
+        if (from < block.from) continue;
+        markup.push(
+          new Markup(
+            from,
+            changes.mapPos(m.to, -1),
+            changes.mapPos(m.lineFrom, 1),
+            changes.mapPos(m.lineTo, -1),
+            m.deco
+          )
+        );
+      }
+    }
+
+    // Blocks that are gone may have left decorations behind.
+    const present = unchangedBlocks(blocks, ChangeSet.empty(state.doc.length));
+    for (const { type, from, to } of this.blocks) {
+      const block = { type, from: changes.mapPos(from, -1), to: changes.mapPos(to, 1) };
+      if (changes.touchesRange(from, to) || !present(block)) dirty.push(block);
+    }
+
+    return { markup, blocks };
+  }
+
+  // Recompute the decorations inside the given regions, which must be
+  // sorted and must not overlap.
+  redraw(state: EditorState, regions: readonly Region[]) {
+    let { decorations, hidden } = this;
+
+    for (const region of regions) {
+      const add: Range<Decoration>[] = [];
+      const addHidden: Range<Decoration>[] = [];
+
+      for (let i = markupAt(this.markup, region.from); i < this.markup.length; i++) {
+        const m = this.markup[i];
+        if (m.from > region.to) break;
+        if (m.to > region.to || touchesSelection(state, m.lineFrom, m.lineTo)) continue;
+        add.push(m.deco.range(m.from, m.to));
+        if (m.deco != linkText) addHidden.push(m.deco.range(m.from, m.to));
+      }
+
+      const update = {
+        filterFrom: region.from,
+        filterTo: region.to,
+        filter: (from: number, to: number) => from < region.from || to > region.to,
+        sort: true,
+      };
+      decorations = decorations.update({ ...update, add });
+      hidden = hidden.update({ ...update, add: addHidden });
+    }
+
+    return new LivePreviewState(this.markup, this.blocks, decorations, hidden);
+  }
+}
+
+function livePreviewField(config: Required<LivePreviewConfig>) {
+  return StateField.define<LivePreviewState>({
+    create: (state) => LivePreviewState.create(state, config),
+    update: (value, tr) => value.update(tr, config),
+    provide: (f) => [
+      EditorView.decorations.from(f, (value) => value.decorations),
+      EditorView.atomicRanges.of((view) => view.state.field(f).hidden),
+    ],
+  });
+}
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-livePreview-link": { textDecoration: "underline" },
+  "&light .cm-livePreview-link": { color: "#219" },
+  "&dark .cm-livePreview-link": { color: "#8af" },
+});
+
+/// Returns an extension that hides Markdown markup—emphasis markers,
+/// heading `#`s, link brackets and URLs, inline code backticks, and
+/// code fences—on lines that don't hold the selection, revealing it
+/// again when the cursor enters the line. The hidden ranges are
+/// [atomic](#view.EditorView^atomicRanges), so cursor motion skips
+/// over them in one step.
+export function markdownLivePreview(config: LivePreviewConfig = {}): Extension {
+  const conf: Required<LivePreviewConfig> = {
+    emphasis: true,
+    headings: true,
+    links: true,
+    inlineCode: true,
+    codeFences: true,
+    ...config,
+  };
+
+  return [livePreviewField(conf), baseTheme];
+}
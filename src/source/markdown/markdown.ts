@@ -1,3 +1,4 @@
+import { ChangeDesc } from "@/state/index";
 import {
   Language,
   defineLanguageFacet,
@@ -9,19 +10,12 @@ import {
   LanguageDescription,
   ParseContext,
 } from "@/language/index";
-import {
-  parser as baseParser,
-  MarkdownParser,
-  GFM,
-  Subscript,
-  Superscript,
-  Emoji,
-} from "@lezer/markdown";
-import { SyntaxNode, NodeType, NodeProp } from "@lezer/common";
+import { parser as baseParser, GFM, Subscript, Superscript, Emoji } from "@lezer/markdown";
+import { SyntaxNode, NodeType, NodeProp, Parser, Tree } from "@lezer/common";
 
 const data = defineLanguageFacet({ commentTokens: { block: { open: "<!--", close: "-->" } } });
 
-const headingProp = new NodeProp<number>();
+export const headingProp = new NodeProp<number>();
 
 const commonmark = baseParser.configure({
   props: [
@@ -90,7 +84,7 @@ const headerIndent = foldService.of((state, start, end) => {
   return null;
 });
 
-export function mkLang(parser: MarkdownParser) {
+export function mkLang(parser: Parser) {
   return new Language(data, parser, [headerIndent], "markdown");
 }
 
@@ -148,3 +142,41 @@ export function getCodeParser(
     return defaultLanguage ? defaultLanguage.parser : null;
   };
 }
+
+// A top-level block of a document, by node type and position.
+export interface TopBlock {
+  type: NodeType;
+  from: number;
+  to: number;
+}
+
+// List the top-level blocks in a tree. Extensions that derive data
+// from the document keep it per block, so that after a change only
+// the blocks that weren't in the old tree have to be looked at.
+export function topBlocks(tree: Tree) {
+  const blocks: TopBlock[] = [];
+  const cursor = tree.cursor();
+
+  if (cursor.firstChild()) {
+    do blocks.push({ type: cursor.type, from: cursor.from, to: cursor.to });
+    while (cursor.nextSibling());
+  }
+
+  return blocks;
+}
+
+// Returns a predicate that tells whether a block of the new tree was
+// also in the old one, unaffected by the changes. Text inserted right
+// before or after a block only leaves it alone when it doesn't end up
+// in the block, which shows in the block's extent.
+export function unchangedBlocks(old: readonly TopBlock[], changes: ChangeDesc) {
+  const kept = new Set<string>();
+
+  for (const { type, from, to } of old) {
+    if (!changes.touchesRange(from + 1, Math.max(from + 1, to - 1))) {
+      kept.add(type.id + ":" + changes.mapPos(from, 1) + ":" + changes.mapPos(to, -1));
+    }
+  }
+
+  return (block: TopBlock) => kept.has(block.type.id + ":" + block.from + ":" + block.to);
+}
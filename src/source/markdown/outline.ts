@@ -0,0 +1,310 @@
+import { Extension, EditorState } from "@/state/index";
+import { EditorView, ViewUpdate, Panel, showPanel } from "@/view/index";
+import { syntaxTree } from "@/language/index";
+import { Tree } from "@lezer/common";
+import type { DocumentSymbol } from "@/search/goto-symbol";
+import { headingProp } from "./markdown";
+
+/// A heading found in a Markdown document.
+export interface MarkdownHeading {
+  /// The heading level, from 1 to 6.
+  level: number;
+  /// The heading's text, without markup.
+  text: string;
+  /// The start of the heading.
+  from: number;
+  /// The end of the heading.
+  to: number;
+  /// The end of the heading's section, which is the start of the next
+  /// heading with the same or a lower level, or the end of the
+  /// document.
+  sectionEnd: number;
+}
+
+function headingText(state: EditorState, from: number, to: number, setext: boolean) {
+  // Only keep the text of inline links and images.
+  const text = state.sliceDoc(from, to).replace(/!?\[([^\]]*)\](?:\([^)]*\)|\[[^\]]*\])/g, "$1");
+
+  return setext
+    ? text.split(/\r?\n/)[0].trim()
+    : text
+        .replace(/^#+\s*/, "")
+        .replace(/(?:^|\s+)#+\s*$/, "")
+        .trim();
+}
+
+/// Collect the top-level ATX and Setext headings in the document, as
+/// determined by the [`headingProp`] levels of the syntax tree.
+export function markdownHeadings(state: EditorState, tree: Tree = syntaxTree(state)) {
+  const headings: MarkdownHeading[] = [];
+
+  for (let node = tree.topNode.firstChild; node; node = node.nextSibling) {
+    const level = node.type.prop(headingProp);
+
+    if (level == null) {
+      continue;
+    }
+
+    headings.push({
+      level,
+      text: headingText(state, node.from, node.to, /^Setext/.test(node.name)),
+      from: node.from,
+      to: node.to,
+      sectionEnd: state.doc.length,
+    });
+  }
+
+  for (let i = 0; i < headings.length; i++) {
+    for (let j = i + 1; j < headings.length; j++) {
+      if (headings[j].level <= headings[i].level) {
+        headings[i].sectionEnd = headings[j].from;
+        break;
+      }
+    }
+  }
+
+  return headings;
+}
+
+// The headings of the document, as symbols for `gotoSymbol`, nested
+// by level.
+export function headingSymbols(state: EditorState): DocumentSymbol[] {
+  const headings = markdownHeadings(state);
+  const base = Math.min(...headings.map((h) => h.level));
+  return headings.map(({ text, level, from, to }) => ({
+    name: text,
+    from,
+    to,
+    kind: "h" + level,
+    depth: level - base,
+  }));
+}
+
+/// Compute the anchor that GitHub generates for a heading with the
+/// given text: lower-cased, with punctuation removed and spaces
+/// replaced by dashes.
+export function headingSlug(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, "")
+    .replace(/ /g, "-");
+}
+
+/// Compute the anchors for a list of headings, adding `-1`, `-2`, and
+/// so on to repeated slugs like GitHub does.
+export function headingSlugs(headings: readonly MarkdownHeading[]) {
+  const seen = new Map<string, number>();
+
+  return headings.map((heading) => {
+    const slug = headingSlug(heading.text);
+    const count = seen.get(slug) || 0;
+    seen.set(slug, count + 1);
+    return count ? `${slug}-${count}` : slug;
+  });
+}
+
+// The index of the innermost heading whose section holds `pos`.
+function activeHeading(headings: readonly MarkdownHeading[], pos: number) {
+  let found = -1;
+
+  for (let i = 0; i < headings.length && headings[i].from <= pos; i++) {
+    if (pos <= headings[i].sectionEnd) found = i;
+  }
+
+  return found;
+}
+
+interface OutlineConfig {
+  /// Whether to place the panel at the top of the editor. Defaults
+  /// to false.
+  top?: boolean;
+}
+
+class OutlinePanel implements Panel {
+  dom: HTMLElement;
+  list: HTMLElement;
+  headings: readonly MarkdownHeading[] = [];
+  items: HTMLElement[] = [];
+  active = -1;
+  dragging = -1;
+
+  constructor(readonly view: EditorView, readonly top: boolean) {
+    this.dom = document.createElement("div");
+    this.dom.className = "cm-markdownOutline";
+    this.dom.setAttribute("aria-label", view.state.phrase("Outline"));
+    this.list = this.dom.appendChild(document.createElement("ul"));
+    this.list.setAttribute("role", "tree");
+    this.render();
+  }
+
+  update(update: ViewUpdate) {
+    if (update.docChanged || syntaxTree(update.startState) != syntaxTree(update.state)) {
+      this.render();
+    } else if (update.selectionSet) {
+      this.setActive(activeHeading(this.headings, update.state.selection.main.head));
+    }
+  }
+
+  render() {
+    const { state } = this.view;
+    this.headings = markdownHeadings(state);
+    this.list.textContent = "";
+
+    // Nest items under the nearest preceding heading with a lower
+    // level.
+    const stack: { level: number; list: HTMLElement }[] = [{ level: 0, list: this.list }];
+    this.items = this.headings.map((heading, i) => {
+      while (stack[stack.length - 1].level >= heading.level) stack.pop();
+
+      const item = document.createElement("li");
+      item.setAttribute("role", "treeitem");
+      const label = item.appendChild(document.createElement("div"));
+      label.className = "cm-markdownOutline-item";
+      label.textContent = heading.text || state.phrase("(empty heading)");
+      // The mousedown isn't prevented to keep focus in the editor,
+      // since that stops Firefox and Safari from starting a drag.
+      // Selecting or dropping a heading focuses the editor again.
+      label.draggable = !state.readOnly;
+      label.addEventListener("click", () => this.select(i));
+      label.addEventListener("dragstart", (e) => this.dragStart(e, i));
+      label.addEventListener("dragover", (e) => this.dragOver(e, i));
+      label.addEventListener("dragleave", () =>
+        label.classList.remove("cm-dropBefore", "cm-dropAfter")
+      );
+      label.addEventListener("drop", (e) => this.drop(e, i));
+      label.addEventListener("dragend", () => (this.dragging = -1));
+
+      stack[stack.length - 1].list.appendChild(item);
+      const sub = item.appendChild(document.createElement("ul"));
+      sub.setAttribute("role", "group");
+      stack.push({ level: heading.level, list: sub });
+
+      return label;
+    });
+
+    this.active = -1;
+    this.setActive(activeHeading(this.headings, state.selection.main.head));
+  }
+
+  setActive(index: number) {
+    if (index == this.active) return;
+    if (this.active > -1) this.items[this.active]?.classList.remove("cm-markdownOutline-active");
+    if (index > -1) this.items[index].classList.add("cm-markdownOutline-active");
+    this.active = index;
+  }
+
+  select(index: number) {
+    const heading = this.headings[index];
+    this.view.dispatch({
+      selection: { anchor: heading.from },
+      effects: EditorView.scrollIntoView(heading.from, { y: "start" }),
+      userEvent: "select",
+    });
+    this.view.focus();
+  }
+
+  dragStart(event: DragEvent, index: number) {
+    this.dragging = index;
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", this.headings[index].text);
+    }
+  }
+
+  // Whether the drop point is in the lower half of the item, meaning
+  // the section should go after the target's section.
+  dropAfter(event: DragEvent, index: number) {
+    const rect = this.items[index].getBoundingClientRect();
+    return event.clientY > (rect.top + rect.bottom) / 2;
+  }
+
+  canDrop(index: number) {
+    const source = this.headings[this.dragging];
+    const target = this.headings[index];
+    return source && (target.from < source.from || target.from >= source.sectionEnd);
+  }
+
+  dragOver(event: DragEvent, index: number) {
+    if (this.dragging < 0 || !this.canDrop(index)) return;
+    event.preventDefault();
+    const after = this.dropAfter(event, index);
+    this.items[index].classList.toggle("cm-dropBefore", !after);
+    this.items[index].classList.toggle("cm-dropAfter", after);
+  }
+
+  drop(event: DragEvent, index: number) {
+    this.items[index].classList.remove("cm-dropBefore", "cm-dropAfter");
+    if (this.dragging < 0 || !this.canDrop(index)) return;
+    event.preventDefault();
+
+    const source = this.headings[this.dragging];
+    const target = this.headings[index];
+    this.dragging = -1;
+    moveSection(this.view, source, this.dropAfter(event, index) ? target.sectionEnd : target.from);
+    this.view.focus();
+  }
+}
+
+// Move the section of the given heading, including its subsections,
+// to `pos`, which should be at the start of a line outside of it.
+function moveSection(view: EditorView, heading: MarkdownHeading, pos: number) {
+  const { state } = view;
+  const { doc } = state;
+  let from = heading.from;
+  const to = heading.sectionEnd;
+  let insert = state.sliceDoc(from, to);
+  let offset = 0;
+
+  if (!/\n$/.test(insert)) {
+    // The last section may lack a trailing line break. Take the one
+    // in front of it instead.
+    insert += state.lineBreak;
+    if (from > 0) from--;
+  } else if (pos == doc.length && !/\n$/.test(state.sliceDoc(pos - 1, pos))) {
+    insert = state.lineBreak + insert.replace(/\r?\n$/, "");
+    offset = state.lineBreak.length;
+  }
+
+  const changes = state.changes([
+    { from, to },
+    { from: pos, insert },
+  ]);
+
+  view.dispatch({
+    changes,
+    selection: { anchor: changes.mapPos(pos, -1) + offset },
+    scrollIntoView: true,
+    userEvent: "move.section",
+  });
+}
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-markdownOutline": {
+    maxHeight: "12em",
+    overflowY: "auto",
+    fontSize: "90%",
+    padding: "2px 6px",
+    "& ul": { listStyle: "none", margin: 0, paddingLeft: "1em" },
+    "& > ul": { paddingLeft: 0 },
+  },
+  ".cm-markdownOutline-item": {
+    cursor: "pointer",
+    padding: "0 4px",
+    borderTop: "2px solid transparent",
+    borderBottom: "2px solid transparent",
+    "&.cm-dropBefore": { borderTopColor: "#4a8" },
+    "&.cm-dropAfter": { borderBottomColor: "#4a8" },
+  },
+  "&light .cm-markdownOutline-active": { backgroundColor: "#dde4ee" },
+  "&dark .cm-markdownOutline-active": { backgroundColor: "#2b3442" },
+});
+
+/// Returns an extension that shows a panel listing the document's
+/// headings as a tree. The section holding the cursor is
+/// highlighted, clicking a heading moves the cursor to it, and
+/// headings can be dragged to move their whole section, including
+/// subsections, in a single transaction.
+export function markdownOutline(config: OutlineConfig = {}): Extension {
+  const top = !!config.top;
+  return [showPanel.of((view) => new OutlinePanel(view, top)), baseTheme];
+}
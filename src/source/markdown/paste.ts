@@ -0,0 +1,351 @@
+import { Extension, EditorState } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { syntaxTree } from "@/language/index";
+import { markdownLanguage } from "./markdown";
+import { renderTable } from "./table";
+
+interface MarkdownPasteConfig {
+  /// Turn a URL pasted over a non-empty selection into a link with the
+  /// selected text as its content. Defaults to true.
+  links?: boolean;
+  /// Convert pasted HTML content to Markdown. Defaults to true.
+  html?: boolean;
+  /// Turn pasted tab- or comma-separated values into a GFM table.
+  /// Defaults to true.
+  tables?: boolean;
+}
+
+// Whether pasted content at the main selection should be converted,
+// which is the case in Markdown text outside of code.
+function convertAt(state: EditorState) {
+  const pos = state.selection.main.from;
+
+  if (!markdownLanguage.isActiveAt(state, pos)) {
+    return false;
+  }
+
+  for (let node = syntaxTree(state).resolveInner(pos, -1); node.parent; node = node.parent) {
+    if (/^(?:FencedCode|CodeBlock|InlineCode|HTMLBlock|CommentBlock)$/.test(node.name)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+const urlRE = /^(?:(?:https?|ftp):\/\/|mailto:)[^\s<>]+$/i;
+
+function pasteLink(text: string, state: EditorState) {
+  const url = text.trim();
+  const { ranges, main } = state.selection;
+
+  if (ranges.length > 1 || main.empty || !urlRE.test(url)) {
+    return null;
+  }
+
+  const selected = state.sliceDoc(main.from, main.to);
+
+  if (/[\n\r]/.test(selected) || urlRE.test(selected.trim())) {
+    return null;
+  }
+
+  return `[${selected}](${url})`;
+}
+
+// Split a line of comma-separated values, honoring double-quoted
+// fields. Returns null when the line doesn't look like CSV.
+function splitCSV(line: string) {
+  const fields: string[] = [];
+  const fieldRE = /"((?:[^"]|"")*)"|([^,"]*)/y;
+
+  for (let pos = 0; ; ) {
+    fieldRE.lastIndex = pos;
+    const match = fieldRE.exec(line)!;
+    const field = match[1] != null ? match[1].replace(/""/g, '"') : match[2];
+    // Unquoted fields that start with whitespace are more likely
+    // to be prose or code than spreadsheet data.
+    if (match[1] == null && /^\s/.test(field)) return null;
+    fields.push(field);
+    pos = fieldRE.lastIndex;
+    if (pos == line.length) break;
+    if (line[pos] != ",") return null;
+    pos++;
+  }
+
+  return fields;
+}
+
+function escapeCell(text: string) {
+  return text.trim().replace(/\|/g, "\\|");
+}
+
+function pasteTable(text: string, state: EditorState) {
+  const lines = text.replace(/(?:\r\n?|\n)$/, "").split(/\r\n?|\n/);
+
+  if (lines.length < 2 || lines.some((line) => !line.trim()) || /^\s*\|/.test(lines[0])) {
+    return null;
+  }
+
+  let rows: string[][] | null = null;
+
+  if (lines.every((line) => line.includes("\t"))) {
+    rows = lines.map((line) => line.split("\t"));
+  } else {
+    const split = lines.map(splitCSV);
+    if (split.every((row) => row)) rows = split as string[][];
+  }
+
+  if (!rows || rows[0].length < 2 || rows.some((row) => row.length != rows![0].length)) {
+    return null;
+  }
+
+  const table = renderTable(
+    rows.map((row) => row.map(escapeCell)),
+    state.lineBreak
+  );
+  const { from } = state.selection.main;
+  const line = state.doc.lineAt(from);
+
+  // A table has to start on its own line.
+  return /\S/.test(state.sliceDoc(line.from, from)) ? state.lineBreak + table : table;
+}
+
+const skipElements = /^(?:HEAD|SCRIPT|STYLE|META|TITLE|TEMPLATE|NOSCRIPT)$/;
+const blockElements =
+  /^(?:P|DIV|SECTION|ARTICLE|HEADER|FOOTER|MAIN|ASIDE|NAV|H[1-6]|UL|OL|LI|BLOCKQUOTE|PRE|HR|TABLE|DL|DT|DD|FIGURE)$/;
+// Content without any of these elements is pasted as plain text.
+const markupElements =
+  /^(?:A|B|STRONG|I|EM|CODE|PRE|DEL|S|STRIKE|IMG|H[1-6]|UL|OL|BLOCKQUOTE|HR|TABLE)$/;
+
+function escapeText(text: string) {
+  return text.replace(/[\\`*_[\]<]/g, "\\$&");
+}
+
+function inlineMarkup(node: Node): string {
+  if (node.nodeType == 3) {
+    return escapeText(node.nodeValue!.replace(/\s+/g, " "));
+  }
+
+  if (node.nodeType != 1) {
+    return "";
+  }
+
+  const elt = node as HTMLElement;
+  const name = elt.nodeName;
+
+  if (skipElements.test(name)) {
+    return "";
+  }
+
+  const content = () => Array.from(elt.childNodes, inlineMarkup).join("");
+  // Markers have to be adjacent to the content they wrap.
+  const wrap = (mark: string) => {
+    const [, before, inner, after] = /^(\s*)([^]*?)(\s*)$/.exec(content())!;
+    return inner ? before + mark + inner + mark + after : before + after;
+  };
+
+  switch (name) {
+    case "B":
+    case "STRONG":
+      // Google Docs wraps its content in a non-bold `<b>` element.
+      return /font-weight:\s*(?:normal|[1-5]00)/.test(elt.getAttribute("style") || "")
+        ? content()
+        : wrap("**");
+    case "I":
+    case "EM":
+      return wrap("*");
+    case "DEL":
+    case "S":
+    case "STRIKE":
+      return wrap("~~");
+    case "CODE": {
+      const text = elt.textContent || "";
+      const ticks = "`".repeat(Math.max(0, ...(text.match(/`+/g) || []).map((t) => t.length)) + 1);
+      const pad = /^`|`$/.test(text) ? " " : "";
+      return ticks + pad + text + pad + ticks;
+    }
+    case "A": {
+      const href = elt.getAttribute("href");
+      const text = content().trim();
+      if (!href || /^javascript:/i.test(href)) return text;
+      return `[${text}](${/[\s()]/.test(href) ? `<${href}>` : href})`;
+    }
+    case "IMG": {
+      const src = elt.getAttribute("src");
+      return src ? `![${escapeText(elt.getAttribute("alt") || "")}](${src})` : "";
+    }
+    case "BR":
+      return "\\\n";
+    case "INPUT":
+      return (elt as HTMLInputElement).type == "checkbox"
+        ? (elt as HTMLInputElement).checked
+          ? "[x] "
+          : "[ ] "
+        : "";
+    default:
+      return blockElements.test(name) ? blockMarkup(elt).join(" ") : content();
+  }
+}
+
+function prefixLines(text: string, first: string, rest: string) {
+  return text
+    .split("\n")
+    .map((line, i) => (i ? (line ? rest + line : line) : first + line))
+    .join("\n");
+}
+
+function listMarkup(list: HTMLElement) {
+  const ordered = list.nodeName == "OL";
+  let number = ordered ? Number(list.getAttribute("start") || 1) : 0;
+  const items: string[] = [];
+
+  for (const child of Array.from(list.children)) {
+    if (child.nodeName != "LI") continue;
+    const marker = ordered ? `${number++}. ` : "- ";
+    const content = blockMarkup(child as HTMLElement).join("\n\n");
+    items.push(prefixLines(content, marker, " ".repeat(marker.length)));
+  }
+
+  return items.join("\n");
+}
+
+function tableMarkup(table: HTMLElement) {
+  const rows = Array.from(table.querySelectorAll("tr"), (row) =>
+    Array.from(row.cells, (cell) => escapeCell(inlineMarkup(cell).replace(/\\\n/g, " ")))
+  ).filter((row) => row.length);
+
+  if (!rows.length) {
+    return "";
+  }
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  return renderTable(
+    rows.map((row) => row.concat(new Array(columns - row.length).fill(""))),
+    "\n"
+  );
+}
+
+function codeBlockMarkup(pre: HTMLElement) {
+  const text = (pre.textContent || "").replace(/\n$/, "");
+  const code = pre.querySelector("code");
+  const lang = /(?:^|\s)(?:language|lang)-(\S+)/.exec(code?.className || pre.className);
+  const fence = "`".repeat(Math.max(2, ...(text.match(/`+/g) || []).map((t) => t.length)) + 1);
+  return `${fence}${lang ? lang[1] : ""}\n${text}\n${fence}`;
+}
+
+// Convert the children of an element to a list of Markdown blocks.
+function blockMarkup(parent: HTMLElement): string[] {
+  const blocks: string[] = [];
+  let paragraph = "";
+
+  const flush = () => {
+    const text = paragraph.replace(/^[ \t]+|[ \t]+$/gm, "").replace(/^\\\n|\\\n$/g, "");
+    if (text) blocks.push(text);
+    paragraph = "";
+  };
+
+  for (const node of Array.from(parent.childNodes)) {
+    const name = node.nodeName;
+
+    if (node.nodeType != 1 || !blockElements.test(name)) {
+      paragraph += inlineMarkup(node);
+      continue;
+    }
+
+    flush();
+    const elt = node as HTMLElement;
+
+    if (/^H[1-6]$/.test(name)) {
+      const text = inlineMarkup(elt).replace(/\\\n/g, " ").trim();
+      if (text) blocks.push("#".repeat(Number(name[1])) + " " + text);
+    } else if (name == "UL" || name == "OL") {
+      const list = listMarkup(elt);
+      if (list) blocks.push(list);
+    } else if (name == "BLOCKQUOTE") {
+      const content = blockMarkup(elt).join("\n\n");
+      if (content) blocks.push(prefixLines(content, "> ", "> ").replace(/\n(?=\n)/g, "\n>"));
+    } else if (name == "PRE") {
+      blocks.push(codeBlockMarkup(elt));
+    } else if (name == "HR") {
+      blocks.push("---");
+    } else if (name == "TABLE") {
+      const table = tableMarkup(elt);
+      if (table) blocks.push(table);
+    } else {
+      blocks.push(...blockMarkup(elt));
+    }
+  }
+
+  flush();
+  return blocks;
+}
+
+/// Convert a piece of HTML to Markdown. Returns null when the HTML
+/// holds no markup that has a Markdown equivalent, or when no DOM
+/// parser is available.
+export function htmlToMarkdown(html: string): string | null {
+  if (typeof DOMParser == "undefined") {
+    return null;
+  }
+
+  const { body } = new DOMParser().parseFromString(html, "text/html");
+
+  if (!Array.from(body.querySelectorAll("*")).some((elt) => markupElements.test(elt.nodeName))) {
+    return null;
+  }
+
+  const text = blockMarkup(body).join("\n\n");
+  return text.trim() ? text : null;
+}
+
+// The HTML clipboard content of pastes that are being handled, keyed
+// by the state that they are pasted into. Dropped text goes through
+// the same input filter, but is never registered here, so that
+// dropping text over an unrelated selection doesn't turn it into a
+// link or a table.
+const pasting = new WeakMap<EditorState, string>();
+
+/// Returns an extension that converts pasted content to Markdown when
+/// pasting into Markdown text (outside of code):
+///
+///  - A URL pasted over a selection becomes a link with the selected
+///    text as its content.
+///  - HTML content is converted to the equivalent Markdown.
+///  - Tab- or comma-separated values, as copied from a spreadsheet,
+///    become a GFM table.
+export function markdownPaste(config: MarkdownPasteConfig = {}): Extension {
+  const { links = true, html = true, tables = true } = config;
+
+  return [
+    EditorView.domEventObservers({
+      paste(event, view) {
+        pasting.set(
+          view.state,
+          (event.clipboardData && event.clipboardData.getData("text/html")) || ""
+        );
+      },
+    }),
+    EditorView.clipboardInputFilter.of((text, state) => {
+      const content = pasting.get(state);
+
+      if (content == null) {
+        return text;
+      }
+
+      pasting.delete(state);
+
+      if (!convertAt(state)) {
+        return text;
+      }
+
+      // A link is tried first, because copying a URL from a browser
+      // puts a link to it on the clipboard as HTML as well.
+      return (
+        (links && pasteLink(text, state)) ||
+        (html && content && htmlToMarkdown(content)) ||
+        (tables && pasteTable(text, state)) ||
+        text
+      );
+    }),
+  ];
+}
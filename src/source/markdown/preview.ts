@@ -0,0 +1,640 @@
+import { Extension, Text, ChangeDesc } from "@/state/index";
+import { EditorView, ViewPlugin, ViewUpdate } from "@/view/index";
+import { syntaxTree } from "@/language/index";
+import { SyntaxNode, Tree } from "@lezer/common";
+import { StyleModule } from "style-mod";
+import { TopBlock, unchangedBlocks } from "./markdown";
+
+interface MarkdownPreviewConfig {
+  /// The element to place the preview in. When not given, the preview
+  /// is inserted directly after the editor's DOM element.
+  parent?: HTMLElement;
+  /// An extra CSS class to add to the preview element.
+  class?: string;
+  /// Whether to keep the scroll position of the editor and the
+  /// preview in sync. Defaults to true.
+  syncScroll?: boolean;
+}
+
+type LinkDefinition = { url: string; title: string };
+
+class RenderContext {
+  constructor(readonly doc: Text, readonly refs: Map<string, LinkDefinition>) {}
+
+  slice(from: number, to: number) {
+    return this.doc.sliceString(from, to);
+  }
+}
+
+// Check whether a URL from the document can be put in the preview.
+// Script URLs are rejected, as are `data:` URLs other than images.
+// Browsers ignore whitespace and control characters in the scheme,
+// so those are removed before looking at it.
+function safeURL(url: string, image: boolean) {
+  // eslint-disable-next-line no-control-regex
+  const scheme = /^([a-z][\w.+-]*):/i.exec(url.replace(/[\u0000-\u0020\u007f]+/g, ""));
+  if (!scheme) return true;
+  const name = scheme[1].toLowerCase();
+  if (name == "data") return image && /^data:image\//i.test(url.trim());
+  return name != "javascript" && name != "vbscript";
+}
+
+/// Normalize a link label the way CommonMark does when matching
+/// references to their definitions.
+export function normalizeLabel(label: string) {
+  return label
+    .replace(/^\[|\]$/g, "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+function collectReferences(tree: Tree, doc: Text) {
+  const refs = new Map<string, LinkDefinition>();
+
+  for (let node = tree.topNode.firstChild; node; node = node.nextSibling) {
+    if (node.name != "LinkReference") {
+      continue;
+    }
+
+    const label = node.getChild("LinkLabel");
+    const url = node.getChild("URL");
+    const title = node.getChild("LinkTitle");
+
+    if (!label || !url) {
+      continue;
+    }
+
+    const key = normalizeLabel(doc.sliceString(label.from, label.to));
+
+    if (!refs.has(key)) {
+      refs.set(key, {
+        url: doc.sliceString(url.from, url.to).replace(/^<|>$/g, ""),
+        title: title ? doc.sliceString(title.from + 1, title.to - 1) : "",
+      });
+    }
+  }
+
+  return refs;
+}
+
+function isMarkNode(node: SyntaxNode) {
+  return /Mark$/.test(node.name);
+}
+
+function headingLevel(node: SyntaxNode) {
+  const match = /^(?:ATX|Setext)Heading(\d)$/.exec(node.name);
+  return match ? +match[1] : 0;
+}
+
+function el<K extends keyof HTMLElementTagNameMap>(tag: K, className?: string) {
+  const dom = document.createElement(tag);
+  if (className) dom.className = className;
+  return dom;
+}
+
+function addText(parent: Node, text: string) {
+  if (text) parent.appendChild(document.createTextNode(text));
+}
+
+function renderInline(parent: Node, node: SyntaxNode, from: number, to: number, cx: RenderContext) {
+  let pos = from;
+
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.to <= from) continue;
+    if (child.from >= to) break;
+
+    if (child.from > pos) {
+      addText(parent, cx.slice(pos, child.from));
+    }
+
+    renderInlineNode(parent, child, cx);
+    pos = child.to;
+  }
+
+  if (pos < to) {
+    addText(parent, cx.slice(pos, to));
+  }
+}
+
+// Returns the range of a link's text, between the opening `[` or
+// `![` and the closing `]`.
+function linkText(node: SyntaxNode) {
+  const open = node.firstChild;
+  const close = open && open.nextSibling;
+
+  if (!open || open.name != "LinkMark") {
+    return null;
+  }
+
+  for (let cur = close; cur; cur = cur.nextSibling) {
+    if (cur.name == "LinkMark") {
+      return { from: open.to, to: cur.from };
+    }
+  }
+
+  return null;
+}
+
+function linkTarget(
+  node: SyntaxNode,
+  text: { from: number; to: number } | null,
+  cx: RenderContext
+) {
+  const url = node.getChild("URL");
+
+  if (url) {
+    const title = node.getChild("LinkTitle");
+    return {
+      url: cx.slice(url.from, url.to).replace(/^<|>$/g, ""),
+      title: title ? cx.slice(title.from + 1, title.to - 1) : "",
+    };
+  }
+
+  const label = node.getChild("LinkLabel");
+  const key = normalizeLabel(
+    label && label.to - label.from > 2
+      ? cx.slice(label.from, label.to)
+      : text
+      ? cx.slice(text.from, text.to)
+      : ""
+  );
+
+  return cx.refs.get(key) || null;
+}
+
+function renderInlineNode(parent: Node, node: SyntaxNode, cx: RenderContext) {
+  if (isMarkNode(node)) {
+    return;
+  }
+
+  const tag = (
+    {
+      Emphasis: "em",
+      StrongEmphasis: "strong",
+      Strikethrough: "del",
+      Subscript: "sub",
+      Superscript: "sup",
+    } as Record<string, keyof HTMLElementTagNameMap>
+  )[node.name];
+
+  if (tag) {
+    const dom = el(tag);
+    renderInline(dom, node, node.from, node.to, cx);
+    parent.appendChild(dom);
+    return;
+  }
+
+  switch (node.name) {
+    case "InlineCode": {
+      const open = node.firstChild,
+        close = node.lastChild;
+      const code = el("code");
+      addText(
+        code,
+        cx.slice(open ? open.to : node.from, close && close != open ? close.from : node.to)
+      );
+      parent.appendChild(code);
+      break;
+    }
+    case "Link":
+    case "Image": {
+      const text = linkText(node);
+      const target = linkTarget(node, text, cx);
+
+      if (!target) {
+        addText(parent, cx.slice(node.from, node.to));
+      } else if (!safeURL(target.url, node.name == "Image")) {
+        // Keep the text of links with unsafe URLs, but don't link it.
+        if (node.name == "Image") addText(parent, text ? cx.slice(text.from, text.to) : "");
+        else if (text) renderInline(parent, node, text.from, text.to, cx);
+      } else if (node.name == "Image") {
+        const img = el("img");
+        img.src = target.url;
+        img.alt = text ? cx.slice(text.from, text.to) : "";
+        if (target.title) img.title = target.title;
+        parent.appendChild(img);
+      } else {
+        const link = el("a");
+        link.href = target.url;
+        if (target.title) link.title = target.title;
+        if (text) renderInline(link, node, text.from, text.to, cx);
+        parent.appendChild(link);
+      }
+      break;
+    }
+    case "Autolink":
+    case "URL": {
+      const url = node.name == "URL" ? node : node.getChild("URL");
+      const text = url ? cx.slice(url.from, url.to) : cx.slice(node.from, node.to);
+      if (!safeURL(text, false)) {
+        addText(parent, text);
+        break;
+      }
+      const link = el("a");
+      link.href = /^[\w.+-]+@[\w-]+\.[\w.-]+$/.test(text)
+        ? "mailto:" + text
+        : /^www\./.test(text)
+        ? "http://" + text
+        : text;
+      addText(link, text);
+      parent.appendChild(link);
+      break;
+    }
+    case "Escape":
+      addText(parent, cx.slice(node.from + 1, node.to));
+      break;
+    case "Entity": {
+      // Entities are restricted by the grammar to `&name;` or
+      // `&#digits;`, so it is safe to let the browser decode them.
+      const decode = el("span");
+      decode.innerHTML = cx.slice(node.from, node.to);
+      addText(parent, decode.textContent || "");
+      break;
+    }
+    case "HardBreak":
+      parent.appendChild(el("br"));
+      break;
+    case "Emoji": {
+      const emoji = el("span", "cm-preview-emoji");
+      addText(emoji, cx.slice(node.from, node.to));
+      parent.appendChild(emoji);
+      break;
+    }
+    case "TaskMarker": {
+      const box = el("input");
+      box.type = "checkbox";
+      box.disabled = true;
+      box.checked = /x/i.test(cx.slice(node.from, node.to));
+      parent.appendChild(box);
+      break;
+    }
+    case "HTMLTag":
+    case "Comment":
+      break;
+    default:
+      renderInline(parent, node, node.from, node.to, cx);
+  }
+}
+
+function codeContent(node: SyntaxNode, cx: RenderContext) {
+  const text = node.getChild("CodeText");
+
+  if (!text) {
+    return "";
+  }
+
+  const content = cx.slice(text.from, text.to);
+  return node.name == "CodeBlock" ? content.replace(/^ {1,4}/gm, "") : content;
+}
+
+function renderTableRow(
+  node: SyntaxNode,
+  header: boolean,
+  align: readonly (string | null)[],
+  cx: RenderContext
+) {
+  const row = el("tr");
+  let col = 0;
+
+  for (let cell = node.firstChild; cell; cell = cell.nextSibling) {
+    if (cell.name != "TableCell") continue;
+    const dom = el(header ? "th" : "td");
+    if (align[col]) dom.style.textAlign = align[col]!;
+    renderInline(dom, cell, cell.from, cell.to, cx);
+    row.appendChild(dom);
+    col++;
+  }
+
+  return row;
+}
+
+function tableAlignment(delimiter: string) {
+  return delimiter
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((spec) => {
+      spec = spec.trim();
+      const left = spec[0] == ":",
+        right = spec[spec.length - 1] == ":";
+      return left && right ? "center" : right ? "right" : left ? "left" : null;
+    });
+}
+
+function renderBlockChildren(parent: HTMLElement, node: SyntaxNode, cx: RenderContext) {
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    const dom = isMarkNode(child) ? null : renderBlock(child, cx);
+    if (dom) parent.appendChild(dom);
+  }
+}
+
+function renderBlock(node: SyntaxNode, cx: RenderContext): HTMLElement | null {
+  const level = headingLevel(node);
+
+  if (level) {
+    const heading = el(("h" + level) as "h1");
+    renderInline(heading, node, node.from, node.to, cx);
+    return heading;
+  }
+
+  switch (node.name) {
+    case "Paragraph":
+    case "Task": {
+      const p = el("p");
+      renderInline(p, node, node.from, node.to, cx);
+      return p;
+    }
+    case "Blockquote": {
+      const quote = el("blockquote");
+      renderBlockChildren(quote, node, cx);
+      return quote;
+    }
+    case "BulletList":
+    case "OrderedList": {
+      const list = el(node.name == "BulletList" ? "ul" : "ol");
+      const first = node.getChild("ListItem");
+      const mark = first && first.getChild("ListMark");
+      const start = mark ? parseInt(cx.slice(mark.from, mark.to)) : 1;
+      if (node.name == "OrderedList" && start != 1) list.setAttribute("start", String(start));
+      renderBlockChildren(list, node, cx);
+      return list;
+    }
+    case "ListItem": {
+      const item = el("li");
+      if (node.getChild("Task")) item.className = "cm-preview-task";
+      renderBlockChildren(item, node, cx);
+      return item;
+    }
+    case "FencedCode":
+    case "CodeBlock": {
+      const pre = el("pre"),
+        code = el("code");
+      const info = node.getChild("CodeInfo");
+      if (info) code.className = "language-" + cx.slice(info.from, info.to).split(/\s/)[0];
+      addText(code, codeContent(node, cx));
+      pre.appendChild(code);
+      return pre;
+    }
+    case "HorizontalRule":
+      return el("hr");
+    case "Table": {
+      const table = el("table");
+      const delimiter = node.getChild("TableDelimiter");
+      const align = delimiter ? tableAlignment(cx.slice(delimiter.from, delimiter.to)) : [];
+      const head = el("thead"),
+        body = el("tbody");
+
+      for (let row = node.firstChild; row; row = row.nextSibling) {
+        if (row.name == "TableHeader") head.appendChild(renderTableRow(row, true, align, cx));
+        else if (row.name == "TableRow") body.appendChild(renderTableRow(row, false, align, cx));
+      }
+
+      table.appendChild(head);
+      if (body.firstChild) table.appendChild(body);
+      return table;
+    }
+    case "HTMLBlock": {
+      const html = el("div", "cm-preview-html");
+      addText(html, cx.slice(node.from, node.to));
+      return html;
+    }
+    case "LinkReference":
+    case "CommentBlock":
+    case "ProcessingInstructionBlock":
+      return null;
+    default: {
+      const block = el("div");
+      addText(block, cx.slice(node.from, node.to));
+      return block;
+    }
+  }
+}
+
+class PreviewBlock {
+  constructor(readonly dom: HTMLElement, public from: number, public to: number) {}
+}
+
+const enum Sync {
+  // Time (ms) during which scroll events on the side that was just
+  // scrolled programmatically are ignored.
+  Lock = 80,
+}
+
+const previewStyle = new StyleModule({
+  ".cm-markdownPreview": {
+    position: "relative",
+    overflow: "auto",
+    boxSizing: "border-box",
+    padding: "0 1em",
+    "& img": { maxWidth: "100%" },
+    "& pre": { overflowX: "auto" },
+    "& table": { borderCollapse: "collapse" },
+    "& th, & td": { border: "1px solid #ccc", padding: "2px 6px" },
+    "& .cm-preview-task": { listStyle: "none" },
+    "& .cm-preview-html": { whiteSpace: "pre-wrap", fontFamily: "monospace" },
+  },
+});
+
+function previewPlugin(config: MarkdownPreviewConfig) {
+  const { syncScroll = true } = config;
+
+  return ViewPlugin.fromClass(
+    class {
+      dom: HTMLElement;
+      blocks: PreviewBlock[] = [];
+      // The top-level blocks of the tree that was last rendered.
+      tops: TopBlock[] = [];
+      refMap = new Map<string, LinkDefinition>();
+      refs = "";
+      tree: Tree | null = null;
+      ignoreEditorScroll = 0;
+      ignorePreviewScroll = 0;
+
+      constructor(readonly view: EditorView) {
+        this.dom = el("div", "cm-markdownPreview" + (config.class ? " " + config.class : ""));
+        if (config.parent) config.parent.appendChild(this.dom);
+        else view.dom.parentNode?.insertBefore(this.dom, view.dom.nextSibling);
+
+        this.onPreviewScroll = this.onPreviewScroll.bind(this);
+        if (syncScroll) this.dom.addEventListener("scroll", this.onPreviewScroll);
+        this.render();
+      }
+
+      update(update: ViewUpdate) {
+        if (update.docChanged || syntaxTree(update.state) != this.tree) {
+          this.render(update.changes);
+        }
+      }
+
+      // Render the document. When given the changes since the last
+      // render, blocks that those didn't touch keep their DOM, unless
+      // the set of link definitions (which may affect any block)
+      // changed.
+      render(changes?: ChangeDesc) {
+        const { state } = this.view;
+        const tree = (this.tree = syntaxTree(state));
+        const unchanged = changes ? unchangedBlocks(this.tops, changes) : null;
+        const tops: TopBlock[] = [];
+        let refsChanged = !unchanged;
+
+        for (let node = tree.topNode.firstChild; node; node = node.nextSibling) {
+          const block = { type: node.type, from: node.from, to: node.to };
+          tops.push(block);
+          if (node.name == "LinkReference" && !unchanged?.(block)) refsChanged = true;
+        }
+
+        // Definitions may also have been removed.
+        const count = (blocks: TopBlock[]) =>
+          blocks.reduce((n, b) => (b.type.name == "LinkReference" ? n + 1 : n), 0);
+        if (!refsChanged && count(tops) != count(this.tops)) refsChanged = true;
+
+        let reuse = unchanged;
+        if (refsChanged) {
+          this.refMap = collectReferences(tree, state.doc);
+          const refs = JSON.stringify([...this.refMap]);
+          if (refs != this.refs) reuse = null;
+          this.refs = refs;
+        }
+
+        const cx = new RenderContext(state.doc, this.refMap);
+        const blocks: PreviewBlock[] = [];
+        let i = 0,
+          index = 0;
+
+        for (let node = tree.topNode.firstChild; node; node = node.nextSibling, index++) {
+          let cached: PreviewBlock | null = null;
+
+          if (reuse && changes && reuse(tops[index])) {
+            for (; i < this.blocks.length; i++) {
+              const from = changes.mapPos(this.blocks[i].from, 1);
+              if (from == node.from) cached = this.blocks[i++];
+              if (from >= node.from) break;
+            }
+          }
+
+          if (cached) {
+            cached.from = node.from;
+            cached.to = node.to;
+            blocks.push(cached);
+          } else {
+            const dom = renderBlock(node, cx);
+            if (dom) blocks.push(new PreviewBlock(dom, node.from, node.to));
+          }
+        }
+
+        this.tops = tops;
+        this.sync(blocks);
+      }
+
+      // Bring the preview's children in line with the given list of
+      // blocks, only touching the DOM nodes that changed position.
+      sync(blocks: PreviewBlock[]) {
+        const keep = new Set(blocks.map((b) => b.dom));
+
+        for (const block of this.blocks) {
+          if (!keep.has(block.dom)) block.dom.remove();
+        }
+
+        let next = this.dom.firstChild;
+        for (const block of blocks) {
+          if (block.dom == next) {
+            next = next.nextSibling;
+          } else {
+            this.dom.insertBefore(block.dom, next);
+          }
+        }
+
+        this.blocks = blocks;
+      }
+
+      // Find the index of the last block that starts at or before `pos`.
+      blockAt(pos: number) {
+        let lo = 0,
+          hi = this.blocks.length - 1;
+
+        while (lo < hi) {
+          const mid = (lo + hi + 1) >> 1;
+          if (this.blocks[mid].from <= pos) lo = mid;
+          else hi = mid - 1;
+        }
+
+        return lo;
+      }
+
+      editorBlockExtent(block: PreviewBlock) {
+        const { view } = this;
+        return {
+          top: view.lineBlockAt(block.from).top,
+          bottom: view.lineBlockAt(block.to).bottom,
+        };
+      }
+
+      // Vertical offset of the document inside the editor's scroller.
+      get documentOffset() {
+        const { scrollDOM } = this.view;
+        return this.view.documentTop - scrollDOM.getBoundingClientRect().top + scrollDOM.scrollTop;
+      }
+
+      onEditorScroll() {
+        if (Date.now() < this.ignoreEditorScroll || !this.blocks.length) return;
+
+        const { view } = this;
+        const height = view.scrollDOM.scrollTop - this.documentOffset;
+        const pos = view.lineBlockAtHeight(height).from;
+        const block = this.blocks[this.blockAt(pos)];
+        const { top, bottom } = this.editorBlockExtent(block);
+        const frac = Math.max(0, Math.min(1, (height - top) / Math.max(1, bottom - top)));
+
+        this.ignorePreviewScroll = Date.now() + Sync.Lock;
+        this.dom.scrollTop = block.dom.offsetTop + frac * block.dom.offsetHeight;
+      }
+
+      onPreviewScroll() {
+        if (Date.now() < this.ignorePreviewScroll || !this.blocks.length) return;
+
+        const scrollTop = this.dom.scrollTop;
+        let index = 0;
+        while (
+          index < this.blocks.length - 1 &&
+          this.blocks[index + 1].dom.offsetTop <= scrollTop
+        ) {
+          index++;
+        }
+
+        const block = this.blocks[index];
+        const frac = Math.max(
+          0,
+          Math.min(1, (scrollTop - block.dom.offsetTop) / Math.max(1, block.dom.offsetHeight))
+        );
+        const { top, bottom } = this.editorBlockExtent(block);
+
+        this.ignoreEditorScroll = Date.now() + Sync.Lock;
+        this.view.scrollDOM.scrollTop = top + frac * (bottom - top) + this.documentOffset;
+      }
+
+      destroy() {
+        this.dom.removeEventListener("scroll", this.onPreviewScroll);
+        this.dom.remove();
+      }
+    },
+    {
+      eventObservers: syncScroll
+        ? {
+            scroll() {
+              this.onEditorScroll();
+            },
+          }
+        : undefined,
+    }
+  );
+}
+
+/// Returns an extension that shows a rendered HTML preview of the
+/// Markdown document next to the editor. The preview is built from
+/// the editor's syntax tree, re-rendering only the top-level blocks
+/// whose text changed, and (unless disabled) keeps its scroll
+/// position in sync with the editor in both directions.
+export function markdownPreview(config: MarkdownPreviewConfig = {}): Extension {
+  return [previewPlugin(config), EditorView.styleModule.of(previewStyle)];
+}
@@ -0,0 +1,401 @@
+import {
+  StateCommand,
+  EditorState,
+  EditorSelection,
+  findClusterBreak,
+  codePointAt,
+} from "@/state/index";
+import { KeyBinding } from "@/view/index";
+import { syntaxTree } from "@/language/index";
+import { SyntaxNode } from "@lezer/common";
+import { markdownLanguage } from "./markdown";
+
+/// The alignment of a table column, as set by the colons in the
+/// delimiter row. `null` means no alignment was given.
+export type Align = "left" | "center" | "right" | null;
+
+interface Cell {
+  text: string;
+  // Offsets of the raw cell (between its pipes) and its trimmed
+  // content, relative to the start of the row.
+  start: number;
+  end: number;
+  from: number;
+  to: number;
+}
+
+// Split a table row into cells at unescaped pipes, dropping the
+// optional leading and trailing pipe.
+function parseRow(text: string): Cell[] {
+  const pipes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] == "\\") i++;
+    else if (text[i] == "|") pipes.push(i);
+  }
+
+  const first = /\S/.exec(text);
+  const last = text.trimEnd().length - 1;
+  const leading = first != null && pipes[0] == first.index;
+  const trailing = pipes.length > (leading ? 1 : 0) && pipes[pipes.length - 1] == last;
+  const bounds = pipes.slice(leading ? 1 : 0, trailing ? pipes.length - 1 : pipes.length);
+  const starts = [leading ? pipes[0] + 1 : 0, ...bounds.map((p) => p + 1)];
+  const ends = [...bounds, trailing ? last : text.length];
+
+  return starts.map((start, i) => {
+    const raw = text.slice(start, ends[i]);
+    const from = start + /^\s*/.exec(raw)![0].length;
+    const content = raw.trim();
+    return { text: content, start, end: ends[i], from, to: from + content.length };
+  });
+}
+
+// Find the cell that a position (relative to the start of the row)
+// falls in, and the offset of the position in its content.
+function cellAt(cells: readonly Cell[], off: number) {
+  let col = Math.max(
+    0,
+    cells.findIndex((cell) => off <= cell.end)
+  );
+  if (off > cells[cells.length - 1].end) col = cells.length - 1;
+  const cell = cells[col];
+  return { col, offset: Math.max(0, Math.min(cell.to, off) - cell.from) };
+}
+
+// East Asian wide and fullwidth characters, and emoji, which take up
+// two columns in a monospace font.
+const wideChar =
+  /[\u1100-\u115f\u2e80-\u303e\u3041-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua000-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6\u{20000}-\u{3fffd}]|\p{Extended_Pictographic}/u;
+
+// The number of columns the text takes up when displayed, counting
+// grapheme clusters, with wide characters counting double.
+function displayWidth(text: string) {
+  let width = 0;
+  for (let i = 0; i < text.length; ) {
+    const next = findClusterBreak(text, i);
+    const char = String.fromCodePoint(codePointAt(text, i));
+    width += wideChar.test(char) ? 2 : 1;
+    i = next;
+  }
+  return width;
+}
+
+function padCell(text: string, width: number) {
+  return text + " ".repeat(Math.max(0, width - displayWidth(text)));
+}
+
+function parseAlign(cell: string): Align {
+  const left = cell[0] == ":",
+    right = cell.length > 1 && cell[cell.length - 1] == ":";
+  return left && right ? "center" : right ? "right" : left ? "left" : null;
+}
+
+class TableData {
+  constructor(
+    readonly from: number,
+    readonly to: number,
+    // The cell contents, header row first.
+    public rows: string[][],
+    public align: Align[],
+    // Text in front of the continuation lines of the table (such as
+    // blockquote markers or list indentation).
+    readonly prefix: string
+  ) {}
+
+  get columns() {
+    return Math.max(this.align.length, ...this.rows.map((row) => row.length));
+  }
+
+  render(lineBreak: string) {
+    const columns = this.columns;
+    const widths: number[] = [];
+
+    for (let col = 0; col < columns; col++) {
+      widths.push(Math.max(3, ...this.rows.map((row) => displayWidth(row[col] || ""))));
+    }
+
+    const padRow = (cells: readonly string[]) =>
+      widths.map((w, col) => padCell(cells[col] || "", w));
+    const delimiter = widths.map((w, col) => {
+      const align = this.align[col];
+      return align == "center"
+        ? ":" + "-".repeat(w - 2) + ":"
+        : align == "right"
+        ? "-".repeat(w - 1) + ":"
+        : align == "left"
+        ? ":" + "-".repeat(w - 1)
+        : "-".repeat(w);
+    });
+
+    // The padded cells of each line, which can be longer than the
+    // column width in characters when they hold wide characters.
+    const cells = [padRow(this.rows[0]), delimiter, ...this.rows.slice(1).map(padRow)];
+    const lines = cells.map((line) => "| " + line.join(" | ") + " |");
+    const separator = lineBreak + this.prefix;
+    const lineStarts: number[] = [];
+
+    for (let i = 0, pos = 0; i < lines.length; i++) {
+      lineStarts.push(pos);
+      pos += lines[i].length + separator.length;
+    }
+
+    return {
+      text: lines.join(separator),
+      // Offset of the content of the given cell in the rendered text.
+      cellPos(row: number, col: number) {
+        const line = row ? row + 1 : 0;
+        let pos = lineStarts[line] + 2;
+        for (let i = 0; i < col; i++) pos += cells[line][i].length + 3;
+        return pos;
+      },
+    };
+  }
+}
+
+// Render rows of cell contents, header row first, as a GFM table.
+export function renderTable(rows: string[][], lineBreak: string) {
+  return new TableData(0, 0, rows, [], "").render(lineBreak).text;
+}
+
+function findTable(state: EditorState, pos: number) {
+  for (
+    let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, -1);
+    node;
+    node = node.parent
+  ) {
+    if (node.name == "Table") {
+      return node;
+    }
+  }
+
+  return null;
+}
+
+function readTable(state: EditorState, node: SyntaxNode, pos: number) {
+  const rows: string[][] = [];
+  let align: Align[] = [];
+  let prefix = "";
+  let row = -1,
+    col = 0,
+    offset = 0;
+
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    const text = state.sliceDoc(child.from, child.to);
+    const cells = parseRow(text);
+
+    if (child.name == "TableDelimiter") {
+      align = cells.map((cell) => parseAlign(cell.text));
+      prefix = state.sliceDoc(state.doc.lineAt(child.from).from, child.from);
+      // Treat a cursor on the delimiter row as being at the start of
+      // the header cell in the same column.
+      if (pos >= child.from && pos <= child.to) {
+        row = 0;
+        col = cellAt(cells, pos - child.from).col;
+        offset = 0;
+      }
+      continue;
+    }
+
+    if (child.name != "TableHeader" && child.name != "TableRow") {
+      continue;
+    }
+
+    if (pos >= child.from && pos <= child.to) {
+      row = rows.length;
+      ({ col, offset } = cellAt(cells, pos - child.from));
+    }
+
+    rows.push(cells.map((cell) => cell.text));
+  }
+
+  if (row < 0 || !rows.length) {
+    return null;
+  }
+
+  return { table: new TableData(node.from, node.to, rows, align, prefix), row, col, offset };
+}
+
+type CellTarget = { row: number; col: number; offset?: number; select?: boolean };
+
+function tableCommand(
+  f: (table: TableData, row: number, col: number, offset: number) => CellTarget | null
+): StateCommand {
+  return ({ state, dispatch }) => {
+    const pos = state.selection.main.head;
+
+    if (state.readOnly || !markdownLanguage.isActiveAt(state, pos)) {
+      return false;
+    }
+
+    const node = findTable(state, pos);
+    const found = node && readTable(state, node, pos);
+
+    if (!found) {
+      return false;
+    }
+
+    const { table, row, col, offset } = found;
+    const target = f(table, row, col, offset);
+
+    if (!target) {
+      return false;
+    }
+
+    const rendered = table.render(state.lineBreak);
+    const targetRow = Math.max(0, Math.min(table.rows.length - 1, target.row));
+    const targetCol = Math.max(0, Math.min(table.columns - 1, target.col));
+    const content = table.rows[targetRow][targetCol] || "";
+    const cellFrom = table.from + rendered.cellPos(targetRow, targetCol);
+
+    dispatch(
+      state.update({
+        changes: { from: table.from, to: table.to, insert: rendered.text },
+        selection: target.select
+          ? EditorSelection.single(cellFrom, cellFrom + content.length)
+          : EditorSelection.cursor(cellFrom + Math.min(content.length, target.offset || 0)),
+        scrollIntoView: true,
+        userEvent: "input",
+      })
+    );
+
+    return true;
+  };
+}
+
+function emptyRow(table: TableData) {
+  return new Array<string>(table.columns).fill("");
+}
+
+/// Realign the columns of the table around the cursor, padding all
+/// cells of a column to the same width.
+export const formatTable = tableCommand((_table, row, col, offset) => ({ row, col, offset }));
+
+/// Realign the table and select the content of the next cell. When
+/// the cursor is in the last cell, a new row is added.
+export const nextTableCell = tableCommand((table, row, col) => {
+  if (col < table.columns - 1) {
+    return { row, col: col + 1, select: true };
+  }
+
+  if (row == table.rows.length - 1) {
+    table.rows.push(emptyRow(table));
+  }
+
+  return { row: row + 1, col: 0, select: true };
+});
+
+/// Realign the table and select the content of the previous cell.
+export const previousTableCell = tableCommand((table, row, col) => {
+  if (col > 0) {
+    return { row, col: col - 1, select: true };
+  }
+
+  return row > 0 ? { row: row - 1, col: table.columns - 1, select: true } : { row, col };
+});
+
+/// Realign the table and move the cursor to the same column in the
+/// next row, adding a row when at the end of the table. Pressing it
+/// on an empty last row removes that row and leaves the table.
+export const insertNewlineInTable: StateCommand = (target) => {
+  const { state } = target;
+  const pos = state.selection.main.head;
+  const node = markdownLanguage.isActiveAt(state, pos) ? findTable(state, pos) : null;
+  const found = node && readTable(state, node, pos);
+
+  if (
+    found &&
+    found.row > 0 &&
+    found.row == found.table.rows.length - 1 &&
+    found.table.rows[found.row].every((cell) => !cell)
+  ) {
+    const { table } = found;
+    table.rows.pop();
+    const text = table.render(state.lineBreak).text + state.lineBreak + table.prefix;
+
+    target.dispatch(
+      state.update({
+        changes: { from: table.from, to: table.to, insert: text },
+        selection: EditorSelection.cursor(table.from + text.length),
+        scrollIntoView: true,
+        userEvent: "input",
+      })
+    );
+
+    return true;
+  }
+
+  return tableCommand((table, row, col) => {
+    if (row == table.rows.length - 1) {
+      table.rows.push(emptyRow(table));
+    }
+
+    return { row: row + 1, col };
+  })(target);
+};
+
+/// Insert an empty row below the cursor's row. When the cursor is in
+/// the header, the row is added as the first body row.
+export const insertTableRow = tableCommand((table, row, col) => {
+  table.rows.splice(row + 1, 0, emptyRow(table));
+  return { row: row + 1, col };
+});
+
+/// Delete the row that holds the cursor. The header row can't be
+/// deleted.
+export const deleteTableRow = tableCommand((table, row, col) => {
+  if (row == 0) {
+    return null;
+  }
+
+  table.rows.splice(row, 1);
+  return { row: Math.min(row, table.rows.length - 1), col };
+});
+
+/// Insert an empty column to the right of the cursor's column.
+export const insertTableColumn = tableCommand((table, row, col) => {
+  const columns = table.columns;
+
+  for (const cells of table.rows) {
+    while (cells.length < columns) cells.push("");
+    cells.splice(col + 1, 0, "");
+  }
+
+  while (table.align.length < columns) table.align.push(null);
+  table.align.splice(col + 1, 0, null);
+
+  return { row, col: col + 1 };
+});
+
+/// Delete the column that holds the cursor, unless it is the only
+/// column in the table.
+export const deleteTableColumn = tableCommand((table, row, col) => {
+  if (table.columns < 2) {
+    return null;
+  }
+
+  for (const cells of table.rows) cells.splice(col, 1);
+  table.align.splice(col, 1);
+
+  return { row, col: Math.min(col, table.columns - 1) };
+});
+
+/// Create a command that sets the alignment of the cursor's column,
+/// updating the `:---:` markers in the delimiter row.
+export function setTableColumnAlignment(align: Align): StateCommand {
+  return tableCommand((table, row, col, offset) => {
+    while (table.align.length <= col) table.align.push(null);
+    table.align[col] = align;
+    return { row, col, offset };
+  });
+}
+
+/// Key bindings for editing GFM tables. These only apply when the
+/// cursor is inside a table, and return false elsewhere.
+///
+///  - Tab: [`nextTableCell`](#lang-markdown.nextTableCell)
+///  - Shift-Tab: [`previousTableCell`](#lang-markdown.previousTableCell)
+///  - Enter: [`insertNewlineInTable`](#lang-markdown.insertNewlineInTable)
+export const markdownTableKeymap: readonly KeyBinding[] = [
+  { key: "Tab", run: nextTableCell, shift: previousTableCell },
+  { key: "Enter", run: insertNewlineInTable },
+];
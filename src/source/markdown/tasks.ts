@@ -0,0 +1,174 @@
+import { Extension, StateCommand, EditorState, ChangeSpec, RangeSetBuilder } from "@/state/index";
+import {
+  EditorView,
+  ViewPlugin,
+  ViewUpdate,
+  Decoration,
+  DecorationSet,
+  WidgetType,
+} from "@/view/index";
+import { syntaxTree } from "@/language/index";
+import { SyntaxNode } from "@lezer/common";
+import { markdownLanguage } from "./markdown";
+import { selectedLines } from "./commands";
+
+class CheckboxWidget extends WidgetType {
+  constructor(readonly checked: boolean) {
+    super();
+  }
+
+  eq(other: CheckboxWidget) {
+    return other.checked == this.checked;
+  }
+
+  toDOM() {
+    const wrap = document.createElement("span");
+    wrap.className = "cm-taskMarker";
+    wrap.setAttribute("aria-hidden", "true");
+    const box = wrap.appendChild(document.createElement("input"));
+    box.type = "checkbox";
+    box.checked = this.checked;
+    return wrap;
+  }
+
+  ignoreEvent() {
+    return false;
+  }
+}
+
+function isChecked(state: EditorState, marker: SyntaxNode) {
+  return /x/i.test(state.sliceDoc(marker.from, marker.to));
+}
+
+// The change that flips the state of the given `TaskMarker` node.
+function toggleMarker(state: EditorState, marker: SyntaxNode): ChangeSpec {
+  return { from: marker.from + 1, to: marker.to - 1, insert: isChecked(state, marker) ? " " : "x" };
+}
+
+function taskMarkerAt(state: EditorState, pos: number) {
+  for (
+    let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, 1);
+    node;
+    node = node.parent
+  ) {
+    if (node.name == "TaskMarker") {
+      return node;
+    }
+
+    if (node.name == "Task") {
+      return node.getChild("TaskMarker");
+    }
+  }
+
+  return null;
+}
+
+function buildCheckboxes(view: EditorView) {
+  const builder = new RangeSetBuilder<Decoration>();
+
+  for (const { from, to } of view.visibleRanges) {
+    syntaxTree(view.state).iterate({
+      from,
+      to,
+      enter: (node) => {
+        if (node.name == "TaskMarker") {
+          builder.add(
+            node.from,
+            node.to,
+            Decoration.replace({ widget: new CheckboxWidget(isChecked(view.state, node.node)) })
+          );
+        }
+      },
+    });
+  }
+
+  return builder.finish();
+}
+
+const checkboxPlugin = ViewPlugin.fromClass(
+  class {
+    decorations: DecorationSet;
+
+    constructor(view: EditorView) {
+      this.decorations = buildCheckboxes(view);
+    }
+
+    update(update: ViewUpdate) {
+      if (
+        update.docChanged ||
+        update.viewportChanged ||
+        syntaxTree(update.startState) != syntaxTree(update.state)
+      ) {
+        this.decorations = buildCheckboxes(update.view);
+      }
+    }
+  },
+  {
+    decorations: (v) => v.decorations,
+    eventHandlers: {
+      mousedown(event, view) {
+        const target = event.target as HTMLElement;
+
+        if (
+          target.nodeName != "INPUT" ||
+          !target.parentElement?.classList.contains("cm-taskMarker")
+        ) {
+          return false;
+        }
+
+        const marker = taskMarkerAt(view.state, view.posAtDOM(target));
+
+        if (!marker || view.state.readOnly) {
+          return false;
+        }
+
+        view.dispatch({ changes: toggleMarker(view.state, marker), userEvent: "input.toggle" });
+        event.preventDefault();
+        return true;
+      },
+    },
+  }
+);
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-taskMarker input": {
+    margin: "0 .25em 0 0",
+    verticalAlign: "middle",
+    cursor: "pointer",
+  },
+});
+
+/// Returns an extension that renders the `[ ]`/`[x]` markers of GFM
+/// task list items as checkboxes. Clicking a checkbox toggles the
+/// marker in the document, so the change can be undone like any
+/// other edit.
+export function taskCheckboxes(): Extension {
+  return [checkboxPlugin, baseTheme];
+}
+
+/// Toggle the checked state of the task items on the selected lines.
+/// Returns false when none of the lines holds a task item.
+export const toggleTaskItem: StateCommand = ({ state, dispatch }) => {
+  if (state.readOnly) {
+    return false;
+  }
+
+  const changes: ChangeSpec[] = [];
+
+  for (const line of selectedLines(state)) {
+    if (!markdownLanguage.isActiveAt(state, line.from)) {
+      continue;
+    }
+
+    const task = /^[\s>]*(?:[-+*]|\d+[.)])\s+(?=\[[ xX]\])/.exec(line.text);
+    const marker = task && taskMarkerAt(state, line.from + task[0].length);
+    if (marker) changes.push(toggleMarker(state, marker));
+  }
+
+  if (!changes.length) {
+    return false;
+  }
+
+  dispatch(state.update({ changes, userEvent: "input.toggle" }));
+  return true;
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { EditorState } from "@/state/index";
+import { CompletionContext, CompletionResult } from "@/autocomplete/index";
+import { markdownLanguage } from "../markdown";
+import { markdownCompletionSource } from "../complete";
+
+const paths = ["README.md", "docs/guide.md", "docs/images/logo.png"];
+
+function complete(doc: string) {
+  const pos = doc.indexOf("|");
+  const state = EditorState.create({ doc: doc.replace("|", ""), extensions: markdownLanguage });
+  const source = markdownCompletionSource({ files: () => paths });
+  return source(new CompletionContext(state, pos, true)) as CompletionResult | null;
+}
+
+describe("markdownCompletionSource", () => {
+  it("completes heading anchors", () => {
+    const result = complete("# Some Title\n\n[link](#so|");
+    expect(result!.from).toBe(21);
+    expect(result!.options.map((o) => o.label)).toEqual(["#some-title"]);
+  });
+
+  it("completes paths", () => {
+    const result = complete("[link](do|");
+    expect(result!.from).toBe(7);
+    expect(result!.options.map((o) => o.label)).toEqual(paths);
+  });
+
+  it("keeps path results while a directory separator is typed", () => {
+    const { validFor } = complete("[link](|")!;
+    expect((validFor as RegExp).test("docs/")).toBe(true);
+    expect((validFor as RegExp).test("docs/images/lo")).toBe(true);
+    expect((validFor as RegExp).test("docs/ x")).toBe(false);
+    expect((validFor as RegExp).test("a)")).toBe(false);
+  });
+});
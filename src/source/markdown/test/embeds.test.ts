@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import { EditorState, EditorSelection } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { cursorCharRight } from "@/commands/commands";
+import { markdownLanguage } from "../markdown";
+import { markdownEmbeds } from "../embeds";
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function editor(doc: string, cursor: number) {
+  return (view = new EditorView({
+    state: EditorState.create({
+      doc,
+      selection: EditorSelection.cursor(cursor),
+      extensions: [
+        markdownLanguage,
+        markdownEmbeds({ renderMath: (source, dom) => (dom.textContent = source) }),
+      ],
+    }),
+  }));
+}
+
+function rendered(view: EditorView) {
+  return Array.from(view.contentDOM.querySelectorAll(".cm-markdownMath"), (e) => e.textContent);
+}
+
+describe("markdownEmbeds", () => {
+  it("renders math away from the cursor", () => {
+    expect(rendered(editor("a $x$ b\n\nc", 10))).toEqual(["x"]);
+  });
+
+  it("shows the source when the cursor is next to a formula", () => {
+    expect(rendered(editor("a $x$ b", 2))).toEqual([]);
+    expect(rendered(editor("a $x$ b", 5))).toEqual([]);
+  });
+
+  it("lets cursor motion enter a formula", () => {
+    const view = editor("a $x$ b", 1);
+    cursorCharRight(view);
+    expect(view.state.selection.main.head).toBe(2);
+    cursorCharRight(view);
+    expect(view.state.selection.main.head).toBe(3);
+  });
+
+  it("keeps the embeds in step with edits", () => {
+    const view = editor("a $x$ b\n\nc $y$\n\nd", 17);
+    expect(rendered(view)).toEqual(["x", "y"]);
+    view.dispatch({ changes: { from: 0, insert: "$z$ " } });
+    expect(rendered(view)).toEqual(["z", "x", "y"]);
+    view.dispatch({ changes: { from: 13, to: 18, insert: "c" } });
+    expect(rendered(view)).toEqual(["z", "x"]);
+    view.dispatch({ changes: { from: 0, insert: "new\n\n" } });
+    expect(rendered(view)).toEqual(["z", "x"]);
+    view.dispatch({ changes: { from: 0, insert: "```\n" } });
+    expect(rendered(view)).toEqual([]);
+  });
+});
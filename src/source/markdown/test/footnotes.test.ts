@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { EditorState, EditorSelection } from "@/state/index";
+import { syntaxTree } from "@/language/index";
+import { parser } from "@lezer/markdown";
+import { mkLang } from "../markdown";
+import { Footnote, gotoFootnote } from "../footnotes";
+
+const language = mkLang(parser.configure(Footnote));
+
+function state(doc: string, cursor = 0) {
+  return EditorState.create({
+    doc,
+    selection: EditorSelection.cursor(cursor),
+    extensions: language,
+  });
+}
+
+// List the footnote nodes in the document with the text they cover.
+function nodes(doc: string) {
+  const st = state(doc),
+    found: string[] = [];
+  syntaxTree(st).iterate({
+    enter(node) {
+      if (/^Footnote(Reference|Definition|Label)$/.test(node.name))
+        found.push(node.name + ":" + st.sliceDoc(node.from, node.to));
+    },
+  });
+  return found;
+}
+
+// Run gotoFootnote with the cursor at the `|` in the document, and
+// return the document with the new cursor position marked the same way.
+function goto(doc: string) {
+  let st = state(doc.replace("|", ""), doc.indexOf("|"));
+  if (!gotoFootnote({ state: st, dispatch: (tr) => (st = tr.state) })) return null;
+  const head = st.selection.main.head;
+  return st.sliceDoc(0, head) + "|" + st.sliceDoc(head);
+}
+
+describe("Footnote", () => {
+  it("parses references and definitions", () => {
+    expect(nodes("Text[^1] here.\n\n[^1]: The note.\n")).toEqual([
+      "FootnoteReference:[^1]",
+      "FootnoteLabel:1",
+      "FootnoteDefinition:[^1]: The note.",
+      "FootnoteLabel:1",
+    ]);
+  });
+
+  it("continues a definition on indented lines", () => {
+    const [, , definition] = nodes("a[^n]\n\n[^n]: one\n\n    two\n\nthree\n");
+    expect(definition).toBe("FootnoteDefinition:[^n]: one\n\n    two");
+  });
+
+  it("doesn't parse references with spaces or in code", () => {
+    expect(nodes("[^a b] `[^c]`\n")).toEqual([]);
+  });
+});
+
+describe("gotoFootnote", () => {
+  const doc = "One[^a], two[^a].\n\n[^a]: Note.\n";
+
+  it("goes from a reference to its definition", () => {
+    expect(goto("One[^|a], two[^a].\n\n[^a]: Note.\n")).toBe("One[^a], two[^a].\n\n[^|a]: Note.\n");
+  });
+
+  it("goes from a definition to the next reference, wrapping around", () => {
+    expect(goto(doc.replace("[^a]: ", "[^|a]: "))).toBe("One[^|a], two[^a].\n\n[^a]: Note.\n");
+  });
+
+  it("fails outside footnotes and for missing definitions", () => {
+    expect(goto("|One[^a].\n\n[^a]: Note.\n")).toBeNull();
+    expect(goto("One[^|b].\n")).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { EditorState } from "@/state/index";
+import { syntaxTree, ensureSyntaxTree } from "@/language/index";
+import { parser } from "@lezer/markdown";
+import { mkLang } from "../markdown";
+import { FrontMatter, frontMatterParser, parseFrontMatter } from "../front-matter";
+
+const language = mkLang(frontMatterParser(parser.configure(FrontMatter)));
+
+// The names of the top-level blocks of the document.
+function blocks(state: EditorState) {
+  const tree = ensureSyntaxTree(state, state.doc.length, 1e9) || syntaxTree(state);
+  const names: string[] = [];
+  for (let node = tree.topNode.firstChild; node; node = node.nextSibling) names.push(node.name);
+  return names;
+}
+
+const parse = (doc: string) => blocks(EditorState.create({ doc, extensions: language }));
+
+describe("FrontMatter", () => {
+  it("parses front matter at the start of the document", () => {
+    expect(parse("---\ntitle: x\n---\n# Heading\n")).toEqual(["FrontMatter", "ATXHeading1"]);
+    expect(parse("---\ntitle: x\n...\ntext\n")).toEqual(["FrontMatter", "Paragraph"]);
+    expect(parse("---\n---\n")).toEqual(["FrontMatter"]);
+  });
+
+  it("leaves a document that starts with a thematic break alone", () => {
+    expect(parse("---\n# Heading\n\ntext\n")).toEqual([
+      "HorizontalRule",
+      "ATXHeading1",
+      "Paragraph",
+    ]);
+  });
+
+  it("only applies at the start of the document", () => {
+    expect(parse("text\n\n---\na: 1\n---\n")).toEqual([
+      "Paragraph",
+      "HorizontalRule",
+      "SetextHeading2",
+    ]);
+  });
+
+  it("is recognized once its closing fence is typed", () => {
+    const yaml = "---\n" + "key: value\n".repeat(30);
+    let state = EditorState.create({
+      doc: yaml + "\n" + "Some text.\n\n".repeat(50),
+      extensions: language,
+    });
+    expect(blocks(state)[0]).toBe("HorizontalRule");
+    state = state.update({ changes: { from: yaml.length, insert: "---\n" } }).state;
+    expect(blocks(state)[0]).toBe("FrontMatter");
+    state = state.update({ changes: { from: yaml.length, to: yaml.length + 4 } }).state;
+    expect(blocks(state)[0]).toBe("HorizontalRule");
+  });
+});
+
+describe("parseFrontMatter", () => {
+  it("parses plain and quoted scalars", () => {
+    expect(
+      parseFrontMatter(
+        [
+          "title: Hello: world",
+          'quoted: "a \\"b\\""',
+          "single: 'it''s'",
+          "count: 12",
+          "ratio: -0.5",
+          "draft: yes",
+          "done: false",
+          "empty: ~",
+        ].join("\n")
+      )
+    ).toEqual({
+      title: "Hello: world",
+      quoted: 'a "b"',
+      single: "it's",
+      count: 12,
+      ratio: -0.5,
+      draft: true,
+      done: false,
+      empty: null,
+    });
+  });
+
+  it("parses flow sequences", () => {
+    expect(parseFrontMatter('tags: [a, "b, c", [1, 2]]')).toEqual({
+      tags: ["a", "b, c", [1, 2]],
+    });
+  });
+
+  it("parses nested maps and lists", () => {
+    expect(
+      parseFrontMatter(
+        [
+          "author:",
+          "  name: Ann",
+          "  links:",
+          "    - one",
+          "    - two",
+          "tags:",
+          "- x",
+          "- y",
+          "items:",
+          "  -",
+          "    id: 1",
+        ].join("\n")
+      )
+    ).toEqual({
+      author: { name: "Ann", links: ["one", "two"] },
+      tags: ["x", "y"],
+      items: [{ id: 1 }],
+    });
+  });
+
+  it("parses block scalars", () => {
+    expect(
+      parseFrontMatter("literal: |\n  one\n  two\nfolded: >-\n  three\n  four\nafter: 1")
+    ).toEqual({ literal: "one\ntwo", folded: "three four", after: 1 });
+  });
+
+  it("skips comments and blank lines", () => {
+    expect(parseFrontMatter("# comment\n\na: 1 \r\nb: # nothing\n")).toEqual({ a: 1, b: null });
+  });
+
+  it("returns an empty object for content that isn't a map", () => {
+    expect(parseFrontMatter("- a\n- b")).toEqual({});
+    expect(parseFrontMatter("")).toEqual({});
+  });
+});
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import { EditorState, EditorSelection } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { markdownLanguage } from "../markdown";
+import { markdownLivePreview } from "../live-preview";
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function editor(doc: string, cursor: number) {
+  return (view = new EditorView({
+    state: EditorState.create({
+      doc,
+      selection: EditorSelection.cursor(cursor),
+      extensions: [markdownLanguage, markdownLivePreview()],
+    }),
+  }));
+}
+
+function lines(view: EditorView) {
+  return Array.from(view.contentDOM.querySelectorAll(".cm-line"), (line) => line.textContent);
+}
+
+describe("markdownLivePreview", () => {
+  const doc = "# Title\n\nsome *em* and [link](url)\n\n```js\ncode\n```\n\nend";
+
+  it("hides markup away from the selection", () => {
+    expect(lines(editor(doc, doc.length))).toEqual([
+      "Title",
+      "",
+      "some em and link",
+      "",
+      "code",
+      "",
+      "end",
+    ]);
+  });
+
+  it("shows the markup on the lines the selection touches", () => {
+    expect(lines(editor(doc, 12))).toEqual([
+      "Title",
+      "",
+      "some *em* and [link](url)",
+      "",
+      "code",
+      "",
+      "end",
+    ]);
+    expect(lines(editor(doc, 40))).toEqual([
+      "Title",
+      "",
+      "some em and link",
+      "",
+      "```js",
+      "code",
+      "```",
+      "",
+      "end",
+    ]);
+  });
+
+  it("hides markup again when the selection moves away", () => {
+    const view = editor(doc, 3);
+    expect(lines(view).slice(0, 3)).toEqual(["# Title", "", "some em and link"]);
+    view.dispatch({ selection: { anchor: 12 } });
+    expect(lines(view).slice(0, 3)).toEqual(["Title", "", "some *em* and [link](url)"]);
+  });
+
+  it("keeps the markup in step with edits", () => {
+    const view = editor(doc, doc.length);
+    view.dispatch({ changes: { from: 0, insert: "**new** " } });
+    expect(lines(view).slice(0, 3)).toEqual(["new # Title", "", "some em and link"]);
+    view.dispatch({ changes: { from: 17, insert: "`x` " } });
+    expect(lines(view).slice(0, 3)).toEqual(["new # Title", "", "x some em and link"]);
+    view.dispatch({ changes: { from: 0, to: 8 } });
+    expect(lines(view).slice(0, 3)).toEqual(["Title", "", "x some em and link"]);
+    view.dispatch({ changes: { from: 0, insert: "new\n\n" } });
+    expect(lines(view).slice(0, 5)).toEqual(["new", "", "Title", "", "x some em and link"]);
+  });
+});
@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import { EditorState } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { markdownLanguage } from "../markdown";
+import { markdownOutline } from "../outline";
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function editor(doc: string) {
+  view = new EditorView({
+    state: EditorState.create({ doc, extensions: [markdownLanguage, markdownOutline()] }),
+    parent: document.body,
+  });
+  const labels = Array.from(view.dom.querySelectorAll(".cm-markdownOutline-item")) as HTMLElement[];
+  return { view, labels };
+}
+
+describe("markdownOutline", () => {
+  it("lists the headings", () => {
+    const { labels } = editor("# One\n\ntext\n\n## Two\n");
+    expect(labels.map((l) => l.textContent)).toEqual(["One", "Two"]);
+  });
+
+  it("leaves mousedown on a heading alone so that it can be dragged", () => {
+    const { labels } = editor("# One\n\n## Two\n");
+    expect(labels[1].draggable).toBe(true);
+    const event = new MouseEvent("mousedown", { bubbles: true, cancelable: true });
+    labels[1].dispatchEvent(event);
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it("moves the cursor to a clicked heading and focuses the editor", () => {
+    const { view, labels } = editor("# One\n\n## Two\n");
+    labels[1].dispatchEvent(new MouseEvent("click", { bubbles: true }));
+    expect(view.state.selection.main.head).toBe(7);
+    expect(view.hasFocus).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import { EditorState, EditorSelection } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { markdownLanguage } from "../markdown";
+import { markdownPaste, htmlToMarkdown } from "../paste";
+
+function editor(doc: string, from: number, to: number) {
+  return new EditorView({
+    state: EditorState.create({
+      doc,
+      selection: EditorSelection.single(from, to),
+      extensions: [markdownLanguage, markdownPaste()],
+    }),
+  });
+}
+
+function paste(doc: string, text: string, from = doc.length, to = from, html = "") {
+  const view = editor(doc, from, to);
+  const event = new Event("paste", { bubbles: true, cancelable: true });
+  Object.defineProperty(event, "clipboardData", {
+    value: {
+      getData: (type: string) => (type == "text/plain" ? text : type == "text/html" ? html : ""),
+    },
+  });
+  view.contentDOM.dispatchEvent(event);
+  const result = view.state.doc.toString();
+  view.destroy();
+  return result;
+}
+
+// Run text through the input filters the way the editor does for
+// dropped text, which doesn't go through the paste event.
+function drop(doc: string, text: string, from: number, to: number) {
+  const { state } = editor(doc, from, to);
+  const filters = state.facet(EditorView.clipboardInputFilter);
+  expect(filters.length).toBeGreaterThan(0);
+  return filters.reduce((value, filter) => filter(value, state), text);
+}
+
+describe("markdownPaste", () => {
+  it("turns a URL pasted over a selection into a link", () => {
+    expect(paste("see docs", "https://example.com", 4, 8)).toBe("see [docs](https://example.com)");
+  });
+
+  it("turns tab- and comma-separated values into a table", () => {
+    expect(paste("", "a\tb\n1\t2")).toBe("| a   | b   |\n| --- | --- |\n| 1   | 2   |");
+    expect(paste("", 'name,"x, y"\n"say ""hi""",2\n')).toBe(
+      '| name     | x, y |\n| -------- | ---- |\n| say "hi" | 2    |'
+    );
+  });
+
+  it("leaves prose and code alone", () => {
+    expect(paste("", "one, two\nthree, four")).toBe("one, two\nthree, four");
+    expect(paste("```\n\n```", "a\tb\n1\t2", 4)).toBe("```\na\tb\n1\t2\n```");
+  });
+
+  it("converts pasted HTML", () => {
+    expect(paste("", "Title", 0, 0, "<h2>Title</h2>")).toBe("## Title");
+  });
+
+  it("prefers a link over the HTML copied along with a URL", () => {
+    const url = "https://example.com";
+    expect(paste("see docs", url, 4, 8, `<a href="${url}">${url}</a>`)).toBe(
+      "see [docs](https://example.com)"
+    );
+  });
+
+  it("doesn't convert dropped text", () => {
+    const url = "https://example.com";
+    expect(paste("see docs", url, 4, 8)).toBe("see [docs](https://example.com)");
+    expect(drop("see docs", url, 4, 8)).toBe(url);
+    expect(drop("", "a\tb\n1\t2", 0, 0)).toBe("a\tb\n1\t2");
+  });
+});
+
+describe("htmlToMarkdown", () => {
+  it("converts inline and block markup", () => {
+    expect(
+      htmlToMarkdown("<h2>Title</h2><p>Some <b>bold</b> and <a href='/x'>a link</a></p>")
+    ).toBe("## Title\n\nSome **bold** and [a link](/x)");
+    expect(htmlToMarkdown("<ul><li>one</li><li>two</li></ul>")).toBe("- one\n- two");
+  });
+
+  it("drops script links", () => {
+    expect(htmlToMarkdown("<p><a href='javascript:alert(1)'>x</a></p>")).toBe("x");
+  });
+
+  it("returns null for plain text", () => {
+    expect(htmlToMarkdown("<span>just text</span>")).toBeNull();
+  });
+});
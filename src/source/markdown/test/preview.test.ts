@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import { EditorState } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { markdownLanguage } from "../markdown";
+import { markdownPreview } from "../preview";
+
+function render(doc: string) {
+  const parent = document.createElement("div");
+  const view = new EditorView({
+    state: EditorState.create({ doc, extensions: [markdownLanguage, markdownPreview({ parent })] }),
+  });
+  const html = parent.cloneNode(true) as HTMLElement;
+  view.destroy();
+  return html;
+}
+
+function editor(doc: string) {
+  const parent = document.createElement("div");
+  const view = new EditorView({
+    state: EditorState.create({ doc, extensions: [markdownLanguage, markdownPreview({ parent })] }),
+  });
+  return { view, preview: parent.firstChild as HTMLElement };
+}
+
+describe("markdownPreview", () => {
+  it("renders links and images", () => {
+    const dom = render("[a](https://example.com) ![b](img.png)");
+    expect(dom.querySelector("a")!.getAttribute("href")).toBe("https://example.com");
+    expect(dom.querySelector("img")!.getAttribute("src")).toBe("img.png");
+  });
+
+  it("doesn't link script URLs", () => {
+    for (const url of [
+      "javascript:alert(1)",
+      "JavaScript:alert(1)",
+      "java\tscript:x",
+      "vbscript:x",
+    ]) {
+      const dom = render(`[text](<${url}>)`);
+      expect(dom.querySelector("a")).toBeNull();
+      expect(dom.textContent).toContain("text");
+    }
+    expect(render("<javascript:alert(1)>").querySelector("a")).toBeNull();
+  });
+
+  it("only allows data URLs for images", () => {
+    expect(render("[x](data:text/html,hi)").querySelector("a")).toBeNull();
+    const dom = render("![x](data:image/png;base64,AAAA) ![y](data:text/html,hi)");
+    const images = dom.querySelectorAll("img");
+    expect(images.length).toBe(1);
+    expect(images[0].getAttribute("src")).toBe("data:image/png;base64,AAAA");
+  });
+
+  it("only re-renders the blocks that changed", () => {
+    const { view, preview } = editor("# One\n\ntwo\n\nthree");
+    const [heading, two, three] = Array.from(preview.children);
+    view.dispatch({ changes: { from: 7, insert: "*2* " } });
+    expect(preview.children[0]).toBe(heading);
+    expect(preview.children[1]).not.toBe(two);
+    expect(preview.children[1].innerHTML).toBe("<em>2</em> two");
+    expect(preview.children[2]).toBe(three);
+    view.dispatch({ changes: { from: 0, insert: "zero\n\n" } });
+    expect(preview.children.length).toBe(4);
+    expect(preview.children[1]).toBe(heading);
+    expect(preview.children[3]).toBe(three);
+    view.destroy();
+  });
+
+  it("re-renders references when their definitions change", () => {
+    const { view, preview } = editor("[a][x]\n\n[x]: one");
+    expect(preview.querySelector("a")!.getAttribute("href")).toBe("one");
+    view.dispatch({ changes: { from: 13, to: 16, insert: "two" } });
+    expect(preview.querySelector("a")!.getAttribute("href")).toBe("two");
+    view.dispatch({ changes: { from: 6, to: 16 } });
+    expect(preview.querySelector("a")).toBeNull();
+    view.destroy();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { EditorState, EditorSelection, StateCommand } from "@/state/index";
+import { markdownLanguage } from "../markdown";
+import { renderTable, formatTable, nextTableCell, previousTableCell } from "../table";
+
+function run(command: StateCommand, doc: string) {
+  const cursor = doc.indexOf("^");
+  let state = EditorState.create({
+    doc: doc.replace("^", ""),
+    selection: EditorSelection.cursor(cursor),
+    extensions: markdownLanguage,
+  });
+  expect(command({ state, dispatch: (tr) => (state = tr.state) })).toBe(true);
+  const { from, to } = state.selection.main;
+  return {
+    doc: state.doc.toString(),
+    selected: state.sliceDoc(from, to),
+    head: state.selection.main.head,
+  };
+}
+
+describe("renderTable", () => {
+  it("pads cells to the column width", () => {
+    expect(
+      renderTable(
+        [
+          ["a", "bb"],
+          ["cccc", "d"],
+        ],
+        "\n"
+      )
+    ).toBe(["| a    | bb  |", "| ---- | --- |", "| cccc | d   |"].join("\n"));
+  });
+
+  it("counts wide characters as two columns", () => {
+    expect(
+      renderTable(
+        [
+          ["名前", "x"],
+          ["abcde", "😀"],
+        ],
+        "\n"
+      )
+    ).toBe(["| 名前  | x   |", "| ----- | --- |", "| abcde | 😀  |"].join("\n"));
+  });
+});
+
+describe("table commands", () => {
+  it("realigns tables with wide characters", () => {
+    const { doc, head } = run(formatTable, "| 名前 | b |\n|-|-|\n| x | 日本^語 |\n");
+    expect(doc).toBe("| 名前 | b      |\n| ---- | ------ |\n| x    | 日本語 |\n");
+    expect(doc.slice(head - 2, head)).toBe("日本");
+  });
+
+  it("moves from the delimiter row by column", () => {
+    const doc = "| a | b | c |\n| --- | -^-- | --- |\n| d | e | f |\n";
+    expect(run(nextTableCell, doc).selected).toBe("c");
+    expect(run(previousTableCell, doc).selected).toBe("a");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { EditorState, EditorSelection } from "@/state/index";
+import { markdownLanguage } from "../markdown";
+import { toggleTaskItem } from "../tasks";
+
+function toggle(doc: string, from: number, to = from) {
+  let state = EditorState.create({
+    doc,
+    selection: EditorSelection.single(from, to),
+    extensions: markdownLanguage,
+  });
+  const handled = toggleTaskItem({ state, dispatch: (tr) => (state = tr.state) });
+  return handled ? state.doc.toString() : null;
+}
+
+describe("toggleTaskItem", () => {
+  const doc = "- [ ] one\n- [x] two\n- three\n";
+
+  it("toggles the task on the cursor line", () => {
+    expect(toggle(doc, 3)).toBe("- [x] one\n- [x] two\n- three\n");
+    expect(toggle(doc, 13)).toBe("- [ ] one\n- [ ] two\n- three\n");
+  });
+
+  it("toggles the tasks on all selected lines", () => {
+    expect(toggle(doc, 2, 14)).toBe("- [x] one\n- [ ] two\n- three\n");
+  });
+
+  it("leaves out a line the selection only ends at", () => {
+    expect(toggle(doc, 2, 10)).toBe("- [x] one\n- [x] two\n- three\n");
+  });
+
+  it("fails on lines without a task", () => {
+    expect(toggle(doc, 22)).toBeNull();
+  });
+});
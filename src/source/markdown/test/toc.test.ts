@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { EditorState, StateCommand } from "@/state/index";
+import { markdownLanguage } from "../markdown";
+import { toggleHeadingNumbers, insertTableOfContents } from "../toc";
+
+function run(command: StateCommand, doc: string) {
+  let state = EditorState.create({ doc, extensions: markdownLanguage });
+  command({ state, dispatch: (tr) => (state = tr.state) });
+  return state.doc.toString();
+}
+
+describe("toggleHeadingNumbers", () => {
+  it("numbers headings hierarchically", () => {
+    expect(run(toggleHeadingNumbers, "# A\n## B\n## C\n# D\n### E\n")).toBe(
+      "# 1 A\n## 1.1 B\n## 1.2 C\n# 2 D\n### 2.0.1 E\n"
+    );
+  });
+
+  it("leaves a lone title unnumbered", () => {
+    expect(run(toggleHeadingNumbers, "# Title\n## A\n## B\n")).toBe("# Title\n## 1 A\n## 2 B\n");
+  });
+
+  it("removes numbers it added", () => {
+    expect(run(toggleHeadingNumbers, "# 1 A\n## 1.1 B\n# 2 C\n")).toBe("# A\n## B\n# C\n");
+    expect(run(toggleHeadingNumbers, "# 1 A\n### 1.0.1 B\n# 2 C\n")).toBe("# A\n### B\n# C\n");
+  });
+
+  it("refreshes the numbers after a heading was added", () => {
+    expect(run(toggleHeadingNumbers, "# 1 A\n# New\n# 2 B\n")).toBe("# 1 A\n# 2 New\n# 3 B\n");
+  });
+
+  it("keeps numbers that are part of the heading text", () => {
+    expect(run(toggleHeadingNumbers, "# 2024 Goals\n## 3 Ways to win\n# Plans\n")).toBe(
+      "# 1 2024 Goals\n## 1.1 3 Ways to win\n# 2 Plans\n"
+    );
+    expect(run(toggleHeadingNumbers, "# 1 2024 Goals\n## 1.1 3 Ways to win\n# 2 Plans\n")).toBe(
+      "# 2024 Goals\n## 3 Ways to win\n# Plans\n"
+    );
+  });
+});
+
+describe("insertTableOfContents", () => {
+  it("inserts and refreshes a table of contents", () => {
+    const doc = run(insertTableOfContents, "\n# A\n## B c\n");
+    expect(doc).toBe("<!-- toc -->\n\n- [A](#a)\n  - [B c](#b-c)\n\n<!-- /toc -->\n# A\n## B c\n");
+    expect(run(insertTableOfContents, doc.replace("## B c", "## D"))).toBe(
+      "<!-- toc -->\n\n- [A](#a)\n  - [D](#d)\n\n<!-- /toc -->\n# A\n## D\n"
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { EditorState } from "@/state/index";
+import { syntaxTree } from "@/language/index";
+import { CompletionContext, CompletionResult } from "@/autocomplete/index";
+import { parser } from "@lezer/markdown";
+import { mkLang } from "../markdown";
+import { WikiLink, wikiLinkCompletionSource } from "../wiki-links";
+
+const language = mkLang(parser.configure(WikiLink));
+
+function state(doc: string) {
+  return EditorState.create({ doc, extensions: language });
+}
+
+// List the wiki-link nodes in the document with the text they cover.
+function nodes(doc: string) {
+  const st = state(doc),
+    found: string[] = [];
+  syntaxTree(st).iterate({
+    enter(node) {
+      if (/^WikiLink(Target|Text)?$/.test(node.name))
+        found.push(node.name + ":" + st.sliceDoc(node.from, node.to));
+    },
+  });
+  return found;
+}
+
+const pages = (query: string) => ["Home", "Help"].filter((p) => p.startsWith(query));
+
+// Complete at the `|` in the document.
+function complete(doc: string, source = wikiLinkCompletionSource(pages)) {
+  const pos = doc.indexOf("|");
+  const context = new CompletionContext(state(doc.replace("|", "")), pos, true);
+  return source(context) as CompletionResult | null;
+}
+
+describe("WikiLink", () => {
+  it("parses wiki-links", () => {
+    expect(nodes("See [[Home]].\n")).toEqual(["WikiLink:[[Home]]", "WikiLinkTarget:Home"]);
+  });
+
+  it("parses the text of a link", () => {
+    expect(nodes("[[Home|the start]]\n")).toEqual([
+      "WikiLink:[[Home|the start]]",
+      "WikiLinkTarget:Home",
+      "WikiLinkText:the start",
+    ]);
+  });
+
+  it("doesn't parse unclosed or empty links", () => {
+    expect(nodes("[[Home\n\n[[]]\n")).toEqual([]);
+  });
+});
+
+describe("wikiLinkCompletionSource", () => {
+  it("completes page names and closes the link", () => {
+    const result = complete("[[H|")!;
+    expect(result.from).toBe(2);
+    expect(result.options.map((o) => [o.label, o.apply])).toEqual([
+      ["Home", "Home]]"],
+      ["Help", "Help]]"],
+    ]);
+  });
+
+  it("doesn't add the closing brackets when they are there", () => {
+    const result = complete("[[Ho|]]")!;
+    expect(result.options.map((o) => [o.label, o.apply])).toEqual([["Home", undefined]]);
+  });
+
+  it("supports asynchronous providers", async () => {
+    const source = wikiLinkCompletionSource(async () => ["Later"]);
+    const result = await complete("[[|", source);
+    expect(result!.options[0].label).toBe("Later");
+  });
+
+  it("doesn't complete outside links or in code", () => {
+    expect(complete("Home|")).toBeNull();
+    expect(complete("`[[H|`")).toBeNull();
+  });
+});
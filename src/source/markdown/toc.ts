@@ -0,0 +1,185 @@
+import { StateCommand, EditorState } from "@/state/index";
+import { syntaxTree } from "@/language/index";
+import { SyntaxNode } from "@lezer/common";
+import { headingProp } from "./markdown";
+import { markdownHeadings, headingSlugs } from "./outline";
+
+const tocStart = /^<!--\s*toc\s*-->$/i,
+  tocEnd = /^<!--\s*(?:\/toc|tocstop)\s*-->$/i;
+
+function findComment(state: EditorState, re: RegExp, after = 0): SyntaxNode | null {
+  for (let node = syntaxTree(state).topNode.firstChild; node; node = node.nextSibling) {
+    if (
+      node.from >= after &&
+      (node.name == "CommentBlock" || node.name == "HTMLBlock") &&
+      re.test(state.sliceDoc(node.from, node.to).trim())
+    ) {
+      return node;
+    }
+  }
+
+  return null;
+}
+
+// Render the headings of the document as a nested list of links.
+function tableOfContents(state: EditorState) {
+  const headings = markdownHeadings(state);
+  const slugs = headingSlugs(headings);
+  const base = Math.min(...headings.map((h) => h.level));
+  let depth = -1;
+
+  return headings.map((heading, i) => {
+    // Skipped heading levels only nest one level deeper, so that the
+    // items don't turn into indented code.
+    depth = Math.min(heading.level - base, depth + 1);
+    const text = heading.text.replace(/[[\]]/g, "\\$&");
+    return " ".repeat(2 * depth) + `- [${text}](#${slugs[i]})`;
+  });
+}
+
+/// Insert a table of contents, generated from the document's
+/// headings, or refresh an existing one. The table is placed between
+/// `<!-- toc -->` and `<!-- /toc -->` comments. When the document
+/// has no `<!-- toc -->` marker yet, the markers and the table are
+/// inserted on the cursor's line.
+export const insertTableOfContents: StateCommand = ({ state, dispatch }) => {
+  if (state.readOnly) {
+    return false;
+  }
+
+  const lines = tableOfContents(state);
+
+  if (!lines.length) {
+    return false;
+  }
+
+  const br = state.lineBreak;
+  const toc = lines.join(br);
+  const start = findComment(state, tocStart);
+  let change: { from: number; to?: number; insert: string };
+
+  if (start) {
+    const end = findComment(state, tocEnd, start.to);
+    change = end
+      ? { from: start.to, to: end.from, insert: br + br + toc + br + br }
+      : { from: start.to, insert: br + br + toc + br + br + "<!-- /toc -->" };
+  } else {
+    const line = state.doc.lineAt(state.selection.main.head);
+    const block = "<!-- toc -->" + br + br + toc + br + br + "<!-- /toc -->";
+    change = line.text.trim()
+      ? { from: line.to, insert: br + br + block + br }
+      : { from: line.from, to: line.to, insert: block };
+  }
+
+  // Leave an up-to-date table alone.
+  if (state.sliceDoc(change.from, change.to ?? change.from) != change.insert) {
+    dispatch(state.update({ changes: change, scrollIntoView: true, userEvent: "input.toc" }));
+  }
+
+  return true;
+};
+
+const sectionNumber = /^(\d+(?:\.\d+)*)\.?[ \t]+/;
+
+interface NumberedHeading {
+  level: number;
+  // The start of the heading's text, after the `#` markers.
+  textFrom: number;
+  // The components of the number the text starts with, if any. This
+  // may just be part of the heading's text.
+  number: number[] | null;
+  // The length of that number, including the space after it.
+  numberLength: number;
+}
+
+function atxHeadings(state: EditorState) {
+  const headings: NumberedHeading[] = [];
+
+  for (let node = syntaxTree(state).topNode.firstChild; node; node = node.nextSibling) {
+    const level = node.type.prop(headingProp);
+    const mark = level != null && /^ATX/.test(node.name) && node.getChild("HeaderMark");
+    if (!mark || mark.from != node.from) continue;
+
+    const text = state.sliceDoc(mark.to, node.to);
+    const textFrom = mark.to + /^[ \t]*/.exec(text)![0].length;
+    const match = sectionNumber.exec(state.sliceDoc(textFrom, node.to));
+    headings.push({
+      level: level!,
+      textFrom,
+      number: match ? match[1].split(".").map(Number) : null,
+      numberLength: match ? match[0].length : 0,
+    });
+  }
+
+  return headings;
+}
+
+// Find the length of the section number of each heading, counting
+// only numbers that this command could have produced: they must have
+// one component per level below the top level, continue the number
+// of the enclosing heading, and follow the previous numbered sibling.
+// Other numbers, like the year in `# 2024 Goals`, are left alone as
+// part of the heading's text. Headings added since the last
+// numbering don't break the sequence.
+function sectionNumbers(headings: readonly NumberedHeading[], top: number) {
+  // The last recognized number at each depth.
+  const current: number[] = [];
+
+  return headings.map(({ level, number, numberLength }) => {
+    const depth = level - top;
+    if (!number || number.length != depth + 1) return 0;
+    // Skipped levels are numbered 0.
+    for (let i = 0; i < depth; i++) if (number[i] != (current[i] || 0)) return 0;
+    if (number[depth] != (current.length > depth ? current[depth] : 0) + 1) return 0;
+    current.length = depth + 1;
+    for (let i = 0; i < depth; i++) current[i] = current[i] || 0;
+    current[depth] = number[depth];
+    return numberLength;
+  });
+}
+
+/// Number the ATX headings of the document hierarchically (`1`,
+/// `1.2`, `1.2.3`), or, when all of them are already numbered,
+/// remove the numbers. Existing numbers are replaced, so running
+/// the command again after restructuring the document refreshes
+/// them. A lone top-level heading at the start of the document is
+/// treated as the document's title and left unnumbered.
+export const toggleHeadingNumbers: StateCommand = ({ state, dispatch }) => {
+  if (state.readOnly) {
+    return false;
+  }
+
+  let headings = atxHeadings(state);
+  const base = Math.min(...headings.map((h) => h.level));
+
+  if (headings.length > 1 && headings.filter((h) => h.level == base).length == 1) {
+    if (headings[0].level == base) headings = headings.slice(1);
+  }
+
+  if (!headings.length) {
+    return false;
+  }
+
+  const top = Math.min(...headings.map((h) => h.level));
+  const numbers = sectionNumbers(headings, top);
+  const strip = numbers.every((length) => length > 0);
+  const counters: number[] = [];
+
+  const changes = headings.map(({ level, textFrom }, i) => {
+    const numberLength = numbers[i];
+
+    if (strip) {
+      return { from: textFrom, to: textFrom + numberLength };
+    }
+
+    const depth = level - top;
+    counters.length = depth + 1;
+    for (let i = 0; i < depth; i++) counters[i] = counters[i] || 0;
+    counters[depth] = (counters[depth] || 0) + 1;
+
+    return { from: textFrom, to: textFrom + numberLength, insert: counters.join(".") + " " };
+  });
+
+  dispatch(state.update({ changes, userEvent: strip ? "delete.numbering" : "input.numbering" }));
+  return true;
+};
@@ -0,0 +1,91 @@
+import {
+  Completion,
+  CompletionContext,
+  CompletionResult,
+  CompletionSource,
+} from "@/autocomplete/index";
+import { MarkdownConfig } from "@lezer/markdown";
+import { tags } from "@lezer/highlight";
+import { inCode } from "./complete";
+
+const wikiLinkRE = /^\[\[([^[\]|\n]+)(?:(\|)([^[\]\n]*))?\]\]/;
+
+/// A Markdown parser extension for wiki-links, written `[[Page
+/// Name]]`, or `[[Page Name|text]]` to show different text.
+export const WikiLink: MarkdownConfig = {
+  defineNodes: [
+    { name: "WikiLink", style: tags.link },
+    { name: "WikiLinkMark", style: tags.processingInstruction },
+    { name: "WikiLinkTarget", style: tags.url },
+    { name: "WikiLinkText" },
+  ],
+  parseInline: [
+    {
+      name: "WikiLink",
+      before: "Link",
+      parse(cx, next, pos) {
+        if (next != 91 /* '[' */ || cx.char(pos + 1) != 91) {
+          return -1;
+        }
+
+        const match = wikiLinkRE.exec(cx.slice(pos, cx.end));
+
+        if (!match) {
+          return -1;
+        }
+
+        const end = pos + match[0].length,
+          targetEnd = pos + 2 + match[1].length;
+        const children = [
+          cx.elt("WikiLinkMark", pos, pos + 2),
+          cx.elt("WikiLinkTarget", pos + 2, targetEnd),
+        ];
+
+        if (match[2]) {
+          children.push(cx.elt("WikiLinkMark", targetEnd, targetEnd + 1));
+          if (match[3]) children.push(cx.elt("WikiLinkText", targetEnd + 1, end - 2));
+        }
+
+        children.push(cx.elt("WikiLinkMark", end - 2, end));
+        return cx.addElement(cx.elt("WikiLink", pos, end, children));
+      },
+    },
+  ],
+};
+
+/// A function that provides the names of the wiki pages that can be
+/// linked to. It is given the name typed so far.
+export type WikiPageProvider = (
+  query: string,
+  context: CompletionContext
+) => readonly (string | Completion)[] | Promise<readonly (string | Completion)[]>;
+
+/// Create a completion source that completes page names after `[[`,
+/// using the given provider, and adds the closing `]]` when it isn't
+/// there yet.
+export function wikiLinkCompletionSource(pages: WikiPageProvider): CompletionSource {
+  return (
+    context: CompletionContext
+  ): CompletionResult | null | Promise<CompletionResult | null> => {
+    const { state, pos } = context;
+    const match = context.matchBefore(/\[\[[^[\]|\n]*/);
+
+    if (!match || inCode(state, pos)) {
+      return null;
+    }
+
+    const from = match.from + 2;
+    const closed = /^[^[\]\n]*\]\]/.test(state.sliceDoc(pos, state.doc.lineAt(pos).to));
+    const toResult = (names: readonly (string | Completion)[]) => ({
+      from,
+      options: names.map((name) => {
+        const option = typeof name == "string" ? { label: name, type: "text" } : name;
+        return closed || option.apply ? option : { ...option, apply: option.label + "]]" };
+      }),
+      validFor: /^[^[\]|\n]*$/,
+    });
+    const result = pages(state.sliceDoc(from, pos), context);
+
+    return "then" in result ? result.then(toResult) : toResult(result);
+  };
+}
@@ -1,13 +1,80 @@
-import { EditorSelection, StateField, StateEffect } from "@/state/index";
-import { EditorView, Command, Panel, getPanel, showPanel } from "@/view/index";
+import {
+  EditorSelection,
+  EditorState,
+  SelectionRange,
+  StateField,
+  StateEffect,
+} from "@/state/index";
+import {
+  EditorView,
+  Command,
+  Panel,
+  Decoration,
+  DecorationSet,
+  getPanel,
+  showPanel,
+} from "@/view/index";
 import elt from "crelt";
 
+const enum Recent {
+  // The number of recent targets kept.
+  Size = 20,
+}
+
+// Parse the text entered in the dialog into the range it points at,
+// or null when it isn't a valid target.
+function parseTarget(state: EditorState, text: string): SelectionRange | null {
+  const { doc } = state;
+  const clampLine = (n: number) => doc.line(Math.max(1, Math.min(doc.lines, n)));
+  text = text.trim();
+
+  const offset = /^#(\d+)$/.exec(text);
+  if (offset) return EditorSelection.cursor(Math.min(doc.length, +offset[1]));
+
+  const range = /^(\d+)\s*(?:-\s*(\d+)|,\s*\+(\d+))$/.exec(text);
+  if (range) {
+    const first = +range[1],
+      last = range[2] ? +range[2] : first + +range[3];
+    const start = clampLine(Math.min(first, last)),
+      end = clampLine(Math.max(first, last));
+    return EditorSelection.range(start.from, end.to);
+  }
+
+  const match = /^([+-])?(\d+)?(:\d+)?(%)?$/.exec(text);
+  if (!match) return null;
+  const startLine = doc.lineAt(state.selection.main.head);
+  const [, sign, ln, cl, percent] = match;
+  const col = cl ? +cl.slice(1) : 0;
+  let line = ln ? +ln : startLine.number;
+  if (ln && percent) {
+    let pc = line / 100;
+    if (sign) pc = pc * (sign == "-" ? -1 : 1) + startLine.number / doc.lines;
+    line = Math.round(doc.lines * pc);
+  } else if (ln && sign) {
+    line = line * (sign == "-" ? -1 : 1) + startLine.number;
+  }
+  const docLine = clampLine(line);
+  return EditorSelection.cursor(docLine.from + Math.max(0, Math.min(col, docLine.length)));
+}
+
 function createLineDialog(view: EditorView): Panel {
   const line = String(view.state.doc.lineAt(view.state.selection.main.head).number);
+  // The scroll position before the dialog opened, which is restored
+  // when it is closed with Escape.
+  const scroll = view.scrollSnapshot();
+  // The position in the recent targets while browsing them, and the
+  // text that was entered before browsing started.
+  let recentPos = -1,
+    draft = "";
+
   const input = elt("input", {
     class: "cm-textfield",
     name: "line",
     value: line,
+    oninput: () => {
+      recentPos = -1;
+      preview();
+    },
   }) as HTMLInputElement;
   const dom = elt(
     "form",
@@ -17,12 +84,18 @@ function createLineDialog(view: EditorView): Panel {
         if (event.keyCode == 27) {
           // Escape
           event.preventDefault();
-          view.dispatch({ effects: dialogEffect.of(false) });
+          view.dispatch({ effects: [dialogEffect.of(false), scroll] });
           view.focus();
         } else if (event.keyCode == 13) {
           // Enter
           event.preventDefault();
           go();
+        } else if (
+          (event.keyCode == 38 || event.keyCode == 40) &&
+          !(event.altKey || event.ctrlKey || event.metaKey || event.shiftKey)
+        ) {
+          // Up, Down
+          if (browseRecent(event.keyCode == 38 ? 1 : -1)) event.preventDefault();
         }
       },
       onsubmit: (event: Event) => {
@@ -35,27 +108,37 @@ function createLineDialog(view: EditorView): Panel {
     elt("button", { class: "cm-button", type: "submit" }, view.state.phrase("go"))
   );
 
+  // Scroll to and highlight the target while it is being entered.
+  function preview() {
+    const target = parseTarget(view.state, input.value);
+    view.dispatch({
+      effects: target
+        ? [previewEffect.of(target), EditorView.scrollIntoView(target, { y: "center" })]
+        : previewEffect.of(null),
+    });
+  }
+
+  function browseRecent(dir: 1 | -1) {
+    const entries = view.state.field(recentTargets);
+    const pos = recentPos + dir;
+    if (pos < -1 || pos >= entries.length) return false;
+    if (recentPos == -1) draft = input.value;
+    recentPos = pos;
+    input.value = pos == -1 ? draft : entries[pos];
+    input.setSelectionRange(input.value.length, input.value.length);
+    preview();
+    return true;
+  }
+
   function go() {
-    const match = /^([+-])?(\d+)?(:\d+)?(%)?$/.exec(input.value);
-    if (!match) return;
-    const { state } = view,
-      startLine = state.doc.lineAt(state.selection.main.head);
-    const [, sign, ln, cl, percent] = match;
-    const col = cl ? +cl.slice(1) : 0;
-    let line = ln ? +ln : startLine.number;
-    if (ln && percent) {
-      let pc = line / 100;
-      if (sign) pc = pc * (sign == "-" ? -1 : 1) + startLine.number / state.doc.lines;
-      line = Math.round(state.doc.lines * pc);
-    } else if (ln && sign) {
-      line = line * (sign == "-" ? -1 : 1) + startLine.number;
-    }
-    const docLine = state.doc.line(Math.max(1, Math.min(state.doc.lines, line)));
-    const selection = EditorSelection.cursor(
-      docLine.from + Math.max(0, Math.min(col, docLine.length))
-    );
+    const selection = parseTarget(view.state, input.value);
+    if (!selection) return;
     view.dispatch({
-      effects: [dialogEffect.of(false), EditorView.scrollIntoView(selection.from, { y: "center" })],
+      effects: [
+        dialogEffect.of(false),
+        addRecentTarget.of(input.value.trim()),
+        EditorView.scrollIntoView(selection, { y: "center" }),
+      ],
       selection,
     });
     view.focus();
@@ -76,19 +159,74 @@ const dialogField = StateField.define<boolean>({
   provide: (f) => showPanel.from(f, (val) => (val ? createLineDialog : null)),
 });
 
+const previewEffect = StateEffect.define<SelectionRange | null>();
+
+const previewLine = Decoration.line({ class: "cm-gotoLine-preview" }),
+  previewRange = Decoration.mark({ class: "cm-gotoLine-preview" });
+
+// Highlights the target of the dialog while it is open. A line target
+// highlights the line, and a range target the text it covers.
+const previewField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(deco, tr) {
+    deco = deco.map(tr.changes);
+    for (const e of tr.effects) {
+      if (e.is(previewEffect)) {
+        const target = e.value;
+        deco = !target
+          ? Decoration.none
+          : target.empty
+          ? Decoration.set(previewLine.range(tr.state.doc.lineAt(target.from).from))
+          : Decoration.set(previewRange.range(target.from, target.to));
+      } else if (e.is(dialogEffect) && !e.value) {
+        deco = Decoration.none;
+      }
+    }
+    return deco;
+  },
+  provide: (f) => EditorView.decorations.from(f),
+});
+
+const addRecentTarget = StateEffect.define<string>();
+
+// The targets recently gone to, most recent first, which can be
+// recalled with the arrow keys in the dialog.
+const recentTargets = StateField.define<readonly string[]>({
+  create() {
+    return [];
+  },
+  update(value, tr) {
+    for (const e of tr.effects)
+      if (e.is(addRecentTarget) && e.value && value[0] != e.value)
+        value = [e.value, ...value.filter((t) => t != e.value)].slice(0, Recent.Size);
+    return value;
+  },
+});
+
 /// Command that shows a dialog asking the user for a line number, and
 /// when a valid position is provided, moves the cursor to that line.
 ///
 /// Supports line numbers, relative line offsets prefixed with `+` or
 /// `-`, document percentages suffixed with `%`, and an optional
 /// column position by adding `:` and a second number after the line
-/// number.
+/// number. A number prefixed with `#` goes to that character offset
+/// in the document, and line ranges, given as `10-20` or `10,+5`,
+/// select the lines in the range.
+///
+/// While a target is being entered, the editor scrolls to it and
+/// highlights it. Escape closes the dialog and restores the original
+/// scroll position. Up and Down recall the targets that were
+/// recently gone to.
 export const gotoLine: Command = (view) => {
   let panel = getPanel(view, createLineDialog);
   if (!panel) {
     const effects: StateEffect<unknown>[] = [dialogEffect.of(true)];
     if (view.state.field(dialogField, false) == null)
-      effects.push(StateEffect.appendConfig.of([dialogField, baseTheme]));
+      effects.push(
+        StateEffect.appendConfig.of([dialogField, previewField, recentTargets, baseTheme])
+      );
     view.dispatch({ effects });
     panel = getPanel(view, createLineDialog);
   }
@@ -101,4 +239,6 @@ const baseTheme = EditorView.baseTheme({
     padding: "2px 6px 4px",
     "& label": { fontSize: "80%" },
   },
+  "&light .cm-gotoLine-preview": { backgroundColor: "#ffff0040" },
+  "&dark .cm-gotoLine-preview": { backgroundColor: "#00ffff40" },
 });
@@ -0,0 +1,389 @@
+import { EditorSelection, EditorState, StateField, StateEffect } from "@/state/index";
+import {
+  EditorView,
+  Command,
+  KeyBinding,
+  Panel,
+  ViewUpdate,
+  Decoration,
+  DecorationSet,
+  getPanel,
+  showPanel,
+} from "@/view/index";
+import { syntaxTree, ensureSyntaxTree } from "@/language/index";
+import { FuzzyMatcher } from "@/autocomplete/filter";
+import elt from "crelt";
+
+/// A symbol listed by [`gotoSymbol`](#search.gotoSymbol).
+export interface DocumentSymbol {
+  /// The name of the symbol, which the list is filtered by.
+  name: string;
+  /// The range of the symbol. Going to the symbol puts the cursor at
+  /// its start.
+  from: number;
+  to: number;
+  /// The kind of symbol, like `"function"` or `"heading"`, shown next
+  /// to its name.
+  kind?: string;
+  /// The nesting depth of the symbol, used to indent it in the
+  /// unfiltered list.
+  depth?: number;
+}
+
+/// A function that lists the symbols of a document. Languages provide
+/// these through [language data](#state.EditorState.languageDataAt)
+/// under the `"symbols"` name.
+export type SymbolSource = (state: EditorState) => readonly DocumentSymbol[];
+
+// Used when the language doesn't provide a symbol source. Lists the
+// nodes whose type name ends in `Definition`, which is how most
+// Lezer grammars mark the names of definitions. Definitions inside
+// the declaration of another definition are nested below it. When
+// `parse` is true, this waits for a while for the document to be
+// parsed to the end.
+function definitionSymbols(state: EditorState, parse: boolean) {
+  const tree = (parse && ensureSyntaxTree(state, state.doc.length, 200)) || syntaxTree(state);
+  const symbols: DocumentSymbol[] = [];
+  const outer: number[] = [];
+  tree.iterate({
+    enter(node) {
+      if (!/Definition$/.test(node.name) || node.to == node.from) return;
+      const parent = node.node.parent;
+      const kind = parent && /^(\w+?)(?:Declaration|Definition)$/.exec(parent.name);
+      while (outer.length && outer[outer.length - 1] <= node.from) outer.pop();
+      symbols.push({
+        name: state.sliceDoc(node.from, node.to),
+        from: node.from,
+        to: node.to,
+        kind: kind ? kind[1].toLowerCase() : undefined,
+        depth: outer.length,
+      });
+      if (parent) outer.push(parent.to);
+    },
+  });
+  return symbols;
+}
+
+function documentSymbols(state: EditorState, parse: boolean) {
+  const sources = state.languageDataAt<SymbolSource>("symbols", 0);
+  if (!sources.length) return definitionSymbols(state, parse);
+  const symbols: DocumentSymbol[] = [];
+  for (const source of sources) symbols.push(...source(state));
+  return symbols.sort((a, b) => a.from - b.from);
+}
+
+interface SymbolOption {
+  symbol: DocumentSymbol;
+  score: number;
+  matched: readonly number[];
+}
+
+function filterSymbols(symbols: readonly DocumentSymbol[], pattern: string) {
+  const options: SymbolOption[] = [];
+  if (!pattern) {
+    for (const symbol of symbols) options.push({ symbol, score: 0, matched: [] });
+    return options;
+  }
+  const matcher = new FuzzyMatcher(pattern);
+  for (const symbol of symbols) {
+    const match = matcher.match(symbol.name);
+    if (match) options.push({ symbol, score: match.score, matched: match.matched });
+  }
+  // Array.sort is stable, so equal scores stay in document order.
+  return options.sort((a, b) => b.score - a.score);
+}
+
+const enum List {
+  // The maximum number of symbols shown in the list.
+  MaxShown = 300,
+  // Time (ms) that the document and its syntax tree have to stay
+  // unchanged before the symbols are computed again.
+  UpdateDelay = 250,
+}
+
+const setDialog = StateEffect.define<boolean>();
+
+const setPreview = StateEffect.define<{ from: number; to: number } | null>();
+
+const previewMark = Decoration.mark({ class: "cm-gotoSymbol-preview" });
+
+const dialogField = StateField.define<boolean>({
+  create() {
+    return true;
+  },
+  update(value, tr) {
+    for (const e of tr.effects) if (e.is(setDialog)) value = e.value;
+    return value;
+  },
+  provide: (f) => showPanel.from(f, (val) => (val ? createSymbolDialog : null)),
+});
+
+const previewField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(deco, tr) {
+    deco = deco.map(tr.changes);
+    for (const e of tr.effects) {
+      if (e.is(setPreview))
+        deco = e.value
+          ? Decoration.set(previewMark.range(e.value.from, e.value.to))
+          : Decoration.none;
+      else if (e.is(setDialog) && !e.value) deco = Decoration.none;
+    }
+    return deco;
+  },
+  provide: (f) => EditorView.decorations.from(f),
+});
+
+function scrollListTo(list: HTMLElement, item: HTMLElement) {
+  const parent = list.getBoundingClientRect(),
+    self = item.getBoundingClientRect();
+  if (self.top < parent.top) list.scrollTop -= parent.top - self.top;
+  else if (self.bottom > parent.bottom) list.scrollTop += self.bottom - parent.bottom;
+}
+
+function renderName(name: string, matched: readonly number[]) {
+  const dom = elt("span", { class: "cm-gotoSymbol-name" });
+  let pos = 0;
+  for (let i = 0; i < matched.length; i += 2) {
+    const from = matched[i],
+      to = matched[i + 1];
+    if (from > pos) dom.appendChild(document.createTextNode(name.slice(pos, from)));
+    dom.appendChild(elt("span", { class: "cm-gotoSymbol-match" }, name.slice(from, to)));
+    pos = to;
+  }
+  if (pos < name.length) dom.appendChild(document.createTextNode(name.slice(pos)));
+  return dom;
+}
+
+function createSymbolDialog(view: EditorView): Panel {
+  let symbols: readonly DocumentSymbol[] = documentSymbols(view.state, true);
+  // The scroll position before the dialog opened, restored when it is
+  // closed with Escape.
+  const scroll = view.scrollSnapshot();
+  let head = view.state.selection.main.head;
+  let options: SymbolOption[] = [],
+    selected = -1;
+  let pendingUpdate = -1;
+
+  const input = elt("input", {
+    class: "cm-textfield",
+    name: "symbol",
+    autocomplete: "off",
+    role: "combobox",
+    "aria-autocomplete": "list",
+    oninput: () => refresh(true),
+  }) as HTMLInputElement;
+  const list = elt("ul", { class: "cm-gotoSymbol-list", role: "listbox" });
+  const dom = elt(
+    "form",
+    {
+      class: "cm-gotoSymbol",
+      onkeydown: (event: KeyboardEvent) => {
+        if (event.keyCode == 27) {
+          // Escape
+          event.preventDefault();
+          view.dispatch({ effects: [setDialog.of(false), scroll] });
+          view.focus();
+        } else if (event.keyCode == 13) {
+          // Enter
+          event.preventDefault();
+          go(selected);
+        } else if ((event.keyCode == 38 || event.keyCode == 40) && options.length) {
+          // Up, Down
+          event.preventDefault();
+          const dir = event.keyCode == 38 ? -1 : 1,
+            count = Math.min(options.length, List.MaxShown);
+          select((selected + dir + count) % count);
+        }
+      },
+      onsubmit: (event: Event) => {
+        event.preventDefault();
+        go(selected);
+      },
+    },
+    elt("label", view.state.phrase("Go to symbol"), ": ", input),
+    list
+  );
+
+  // The list is first drawn while the panel is mounted, which happens
+  // during a view update, when no preview can be dispatched.
+  function refresh(preview: boolean) {
+    options = filterSymbols(symbols, input.value.trim());
+    list.textContent = "";
+    options.slice(0, List.MaxShown).forEach(({ symbol, matched }, i) => {
+      const item = elt(
+        "li",
+        {
+          role: "option",
+          id: "cm-gotoSymbol-" + i,
+          onmousedown: (event: MouseEvent) => {
+            event.preventDefault();
+            go(i);
+          },
+        },
+        renderName(symbol.name, matched)
+      );
+      if (!input.value.trim() && symbol.depth) item.style.paddingLeft = symbol.depth + "em";
+      if (symbol.kind) item.appendChild(elt("span", { class: "cm-gotoSymbol-kind" }, symbol.kind));
+      list.appendChild(item);
+    });
+    if (!options.length)
+      list.appendChild(
+        elt("li", { class: "cm-gotoSymbol-empty" }, view.state.phrase("no symbols"))
+      );
+    select(input.value.trim() ? 0 : currentSymbol(), preview);
+  }
+
+  // In the unfiltered list, start at the symbol the cursor is in.
+  function currentSymbol() {
+    let index = 0;
+    for (let i = 0; i < options.length && i < List.MaxShown; i++)
+      if (options[i].symbol.from <= head) index = i;
+    return index;
+  }
+
+  function select(index: number, preview = true) {
+    const old = list.querySelector("[aria-selected]");
+    if (old) old.removeAttribute("aria-selected");
+    const option = options[index];
+    selected = option ? index : -1;
+    if (!option) {
+      input.removeAttribute("aria-activedescendant");
+      if (preview) view.dispatch({ effects: setPreview.of(null) });
+      return;
+    }
+    const item = list.children[index] as HTMLElement;
+    item.setAttribute("aria-selected", "true");
+    input.setAttribute("aria-activedescendant", item.id);
+    scrollListTo(list, item);
+    const { from, to } = option.symbol;
+    if (preview)
+      view.dispatch({
+        effects: [setPreview.of({ from, to }), EditorView.scrollIntoView(from, { y: "center" })],
+      });
+  }
+
+  function go(index: number) {
+    const option = options[index];
+    if (!option) return;
+    const selection = EditorSelection.cursor(option.symbol.from);
+    view.dispatch({
+      effects: [setDialog.of(false), EditorView.scrollIntoView(selection.from, { y: "center" })],
+      selection,
+      userEvent: "select.symbol",
+    });
+    view.focus();
+  }
+
+  // Redraw the list with a new set of symbols, staying on the symbol
+  // that was selected if it still exists. `mapPos` maps the position
+  // of the old symbols to the new ones.
+  function setSymbols(value: readonly DocumentSymbol[], mapPos: (pos: number) => number) {
+    const current = options[selected];
+    symbols = value;
+    refresh(false);
+    if (current) {
+      const from = mapPos(current.symbol.from);
+      const index = options.findIndex(
+        (o, i) => i < List.MaxShown && o.symbol.name == current.symbol.name && o.symbol.from == from
+      );
+      if (index > -1) select(index, false);
+    }
+  }
+
+  return {
+    dom,
+    mount() {
+      refresh(false);
+    },
+    // Keep the list in step with the document while the dialog is
+    // open. Symbols are moved along with changes right away, and
+    // computed again from the syntax tree once the document and the
+    // parser have been idle for a moment.
+    update(update: ViewUpdate) {
+      const { changes } = update;
+      if (update.docChanged) {
+        head = changes.mapPos(head);
+        setSymbols(
+          symbols.map((s) => ({
+            ...s,
+            from: changes.mapPos(s.from, 1),
+            to: changes.mapPos(s.to, -1),
+          })),
+          (pos) => changes.mapPos(pos, 1)
+        );
+      }
+      if (update.docChanged || syntaxTree(update.state) != syntaxTree(update.startState)) {
+        clearTimeout(pendingUpdate);
+        pendingUpdate = window.setTimeout(() => {
+          pendingUpdate = -1;
+          setSymbols(documentSymbols(view.state, false), (pos) => pos);
+        }, List.UpdateDelay);
+      }
+    },
+    destroy() {
+      clearTimeout(pendingUpdate);
+    },
+  };
+}
+
+/// Command that shows a dialog listing the symbols of the document,
+/// and moves the cursor to the one picked by the user. Symbols come
+/// from the `"symbols"` [language
+/// data](#state.EditorState.languageDataAt) of the document's
+/// language (see [`SymbolSource`](#search.SymbolSource)), or, when
+/// the language doesn't provide any, from the definitions in its
+/// syntax tree.
+///
+/// Typing into the dialog filters the list with fuzzy matching, which
+/// favors matches at the start of words. Navigating the list with the
+/// arrow keys scrolls the editor to the selected symbol and
+/// highlights it, and Escape restores the original position.
+export const gotoSymbol: Command = (view) => {
+  let panel = getPanel(view, createSymbolDialog);
+  if (!panel) {
+    const effects: StateEffect<unknown>[] = [setDialog.of(true)];
+    if (view.state.field(dialogField, false) == null)
+      effects.push(StateEffect.appendConfig.of([dialogField, previewField, baseTheme]));
+    view.dispatch({ effects });
+    panel = getPanel(view, createSymbolDialog);
+  }
+  if (panel) panel.dom.querySelector("input")!.select();
+  return true;
+};
+
+/// Binds Mod-Shift-o to [`gotoSymbol`](#search.gotoSymbol). This
+/// isn't part of [`searchKeymap`](#search.searchKeymap), and has to be
+/// added separately.
+export const gotoSymbolKeymap: readonly KeyBinding[] = [{ key: "Mod-Shift-o", run: gotoSymbol }];
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-panel.cm-gotoSymbol": {
+    padding: "2px 6px 4px",
+    "& label": { fontSize: "80%" },
+  },
+  ".cm-gotoSymbol-list": {
+    listStyle: "none",
+    margin: "2px 0 0",
+    padding: 0,
+    maxHeight: "10em",
+    overflowY: "auto",
+    fontFamily: "monospace",
+    "& > li": {
+      padding: "0 4px",
+      cursor: "pointer",
+      whiteSpace: "pre",
+      overflow: "hidden",
+      textOverflow: "ellipsis",
+    },
+  },
+  "&light .cm-gotoSymbol-list > li[aria-selected]": { background: "#17c", color: "white" },
+  "&dark .cm-gotoSymbol-list > li[aria-selected]": { background: "#347", color: "white" },
+  ".cm-gotoSymbol-match": { textDecoration: "underline" },
+  ".cm-gotoSymbol-kind": { marginLeft: ".8em", fontSize: "80%", opacity: 0.7 },
+  ".cm-gotoSymbol-empty": { fontStyle: "italic", cursor: "default" },
+  "&light .cm-gotoSymbol-preview": { backgroundColor: "#ffff0054" },
+  "&dark .cm-gotoSymbol-preview": { backgroundColor: "#00ffff8a" },
+});
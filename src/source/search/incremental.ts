@@ -0,0 +1,330 @@
+import {
+  EditorSelection,
+  EditorState,
+  StateField,
+  StateEffect,
+  Extension,
+  Prec,
+  Text,
+} from "@/state/index";
+import { EditorView, Command, Panel, ViewUpdate, showPanel, keymap } from "@/view/index";
+import elt from "crelt";
+import { SearchCursor } from "./cursor";
+
+interface SearchStep {
+  query: string;
+  selection: EditorSelection;
+  forward: boolean;
+  failing: boolean;
+  wrapped: boolean;
+}
+
+class IncrementalSearch {
+  constructor(
+    readonly active: boolean,
+    readonly forward: boolean,
+    readonly query: string,
+    // Set when the last search didn't find anything.
+    readonly failing: boolean,
+    // Set when the search wrapped around the end (or start) of the
+    // document.
+    readonly wrapped: boolean,
+    // The selection before the search started, restored when it is
+    // cancelled.
+    readonly origin: EditorSelection,
+    // The earlier steps of the search, which Backspace returns to.
+    readonly steps: readonly SearchStep[],
+    // The last non-empty query, which is reused when a search is
+    // repeated before anything was typed.
+    readonly last: string
+  ) {}
+
+  step(state: EditorState): SearchStep {
+    const { query, forward, failing, wrapped } = this;
+    return { query, selection: state.selection, forward, failing, wrapped };
+  }
+}
+
+const setIncrementalSearch = StateEffect.define<IncrementalSearch>();
+
+const incrementalSearchState = StateField.define<IncrementalSearch | null>({
+  create() {
+    return null;
+  },
+  update(value, tr) {
+    for (const effect of tr.effects) if (effect.is(setIncrementalSearch)) return effect.value;
+    // Editing or moving the selection in some other way ends the
+    // search, keeping the selection.
+    if (value && value.active && (tr.docChanged || tr.selection)) return finish(value);
+    return value;
+  },
+  provide: (f) => showPanel.from(f, (val) => (val && val.active ? createPrompt : null)),
+});
+
+function finish(search: IncrementalSearch) {
+  const last = search.query || search.last;
+  return new IncrementalSearch(false, search.forward, "", false, false, search.origin, [], last);
+}
+
+const enum Chunk {
+  Size = 10000,
+}
+
+// Queries without upper-case letters are matched case-insensitively.
+function normalizer(query: string) {
+  return query == query.toLowerCase() ? (x: string) => x.toLowerCase() : undefined;
+}
+
+function findForward(doc: Text, query: string, from: number) {
+  const cursor = new SearchCursor(doc, query, from, doc.length, normalizer(query));
+  return cursor.nextOverlapping().done ? null : cursor.value;
+}
+
+// Find the last match that starts before `before`, scanning the
+// document backwards chunk by chunk.
+function findBackward(doc: Text, query: string, before: number) {
+  for (let end = before; end > 0; ) {
+    const start = Math.max(0, end - Chunk.Size);
+    const cursor = new SearchCursor(
+      doc,
+      query,
+      start,
+      Math.min(doc.length, end + query.length - 1),
+      normalizer(query)
+    );
+    let found: { from: number; to: number } | null = null;
+    while (!cursor.nextOverlapping().done) if (cursor.value.from < end) found = cursor.value;
+    if (found) return found;
+    end = start;
+  }
+  return null;
+}
+
+// Run a search step. `again` is true when the search is repeated,
+// and false when the query was extended.
+function runSearch(
+  view: EditorView,
+  search: IncrementalSearch,
+  query: string,
+  forward: boolean,
+  again: boolean
+) {
+  const { state } = view,
+    { doc } = state,
+    main = state.selection.main;
+  const matched = !!search.query && !search.failing;
+  let wrapped = search.wrapped,
+    match: { from: number; to: number } | null = null;
+
+  if (query) {
+    // Repeating a failed search in the same direction wraps around.
+    if (again && search.failing && forward == search.forward) {
+      match = forward ? findForward(doc, query, 0) : findBackward(doc, query, doc.length + 1);
+      wrapped = true;
+    } else if (forward) {
+      match = findForward(doc, query, again ? main.to : matched ? main.from : main.head);
+    } else {
+      match = findBackward(doc, query, again ? main.from : matched ? main.from + 1 : main.head);
+    }
+  }
+
+  const steps = search.steps.concat(search.step(state));
+  const next = new IncrementalSearch(
+    true,
+    forward,
+    query,
+    !!query && !match,
+    wrapped,
+    search.origin,
+    steps,
+    search.last
+  );
+  if (!match) {
+    view.dispatch({ effects: setIncrementalSearch.of(next) });
+    return;
+  }
+  const range = forward
+    ? EditorSelection.range(match.from, match.to)
+    : EditorSelection.range(match.to, match.from);
+  view.dispatch({
+    selection: EditorSelection.create([range]),
+    effects: [setIncrementalSearch.of(next), EditorView.scrollIntoView(range, { y: "nearest" })],
+    userEvent: "select.isearch",
+  });
+}
+
+function startSearch(forward: boolean): Command {
+  return (view) => {
+    const search = view.state.field(incrementalSearchState, false);
+    if (search && search.active) {
+      runSearch(view, search, search.query || search.last, forward, true);
+      return true;
+    }
+    const start = new IncrementalSearch(
+      true,
+      forward,
+      "",
+      false,
+      false,
+      view.state.selection,
+      [],
+      search ? search.last : ""
+    );
+    const effects: StateEffect<unknown>[] = [setIncrementalSearch.of(start)];
+    if (search === undefined)
+      effects.unshift(StateEffect.appendConfig.of(incrementalSearchExtensions));
+    view.dispatch({ effects });
+    return true;
+  };
+}
+
+/// Start an incremental search forward, or, when one is active, move
+/// to the next match. When pressed again after a search failed, it
+/// wraps around to the start of the document.
+export const incrementalSearchForward: Command = startSearch(true);
+
+/// Start an incremental search backward, or move to the previous
+/// match of an active one.
+export const incrementalSearchBackward: Command = startSearch(false);
+
+function cancelSearch(view: EditorView, search: IncrementalSearch) {
+  view.dispatch({
+    selection: search.origin,
+    effects: [
+      setIncrementalSearch.of(finish(search)),
+      EditorView.scrollIntoView(search.origin.main),
+    ],
+    userEvent: "select.isearch",
+  });
+}
+
+function backspace(view: EditorView, search: IncrementalSearch) {
+  const step = search.steps[search.steps.length - 1];
+  if (!step) return;
+  const { query, selection, forward, failing, wrapped } = step;
+  const prev = new IncrementalSearch(
+    true,
+    forward,
+    query,
+    failing,
+    wrapped,
+    search.origin,
+    search.steps.slice(0, -1),
+    search.last
+  );
+  view.dispatch({
+    selection,
+    effects: [setIncrementalSearch.of(prev), EditorView.scrollIntoView(selection.main)],
+    userEvent: "select.isearch",
+  });
+}
+
+// While a search is active, key presses are interpreted by the
+// search, rather than by the editor.
+const handleKeys = Prec.highest(
+  EditorView.domEventHandlers({
+    keydown(event, view) {
+      const search = view.state.field(incrementalSearchState, false);
+      if (!search || !search.active || event.isComposing) return false;
+      const key = event.key,
+        ctrl = event.ctrlKey && !event.altKey && !event.metaKey;
+
+      if (ctrl && (key == "s" || key == "r")) {
+        runSearch(view, search, search.query || search.last, key == "s", true);
+      } else if (event.keyCode == 27 || (ctrl && key == "g")) {
+        // Escape
+        cancelSearch(view, search);
+      } else if (event.keyCode == 13) {
+        // Enter
+        view.dispatch({ effects: setIncrementalSearch.of(finish(search)) });
+      } else if (event.keyCode == 8) {
+        // Backspace
+        backspace(view, search);
+      } else if (key.length == 1 && !event.ctrlKey && !event.metaKey) {
+        runSearch(view, search, search.query + key, search.forward, false);
+      } else if (!/^(?:Shift|Control|Alt|Meta|CapsLock|Dead)$/.test(key)) {
+        // Other keys end the search and then run as usual.
+        view.dispatch({ effects: setIncrementalSearch.of(finish(search)) });
+        return false;
+      } else {
+        return false;
+      }
+      event.preventDefault();
+      return true;
+    },
+    mousedown(_event, view) {
+      const search = view.state.field(incrementalSearchState, false);
+      if (search && search.active)
+        view.dispatch({ effects: setIncrementalSearch.of(finish(search)) });
+      return false;
+    },
+  })
+);
+
+class SearchPrompt implements Panel {
+  dom: HTMLElement;
+  label: HTMLElement;
+  query: HTMLElement;
+
+  constructor(readonly view: EditorView) {
+    this.label = elt("span", { class: "cm-isearch-label" });
+    this.query = elt("span", { class: "cm-isearch-query" });
+    this.dom = elt("div", { class: "cm-isearch", "aria-live": "polite" }, [this.label, this.query]);
+    this.draw(view.state.field(incrementalSearchState)!);
+  }
+
+  update(update: ViewUpdate) {
+    const search = update.state.field(incrementalSearchState);
+    if (search != update.startState.field(incrementalSearchState) && search) this.draw(search);
+  }
+
+  draw(search: IncrementalSearch) {
+    const { state } = this.view;
+    let label = state.phrase(search.forward ? "I-search" : "I-search backward");
+    if (search.wrapped) label = state.phrase("Wrapped") + " " + label;
+    if (search.failing) label = state.phrase("Failing") + " " + label;
+    this.label.textContent = label + ": ";
+    this.query.textContent = search.query;
+    this.dom.classList.toggle("cm-isearch-failing", search.failing);
+  }
+}
+
+function createPrompt(view: EditorView) {
+  return new SearchPrompt(view);
+}
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-panel.cm-isearch": {
+    padding: "2px 6px 4px",
+    whiteSpace: "pre",
+  },
+  ".cm-isearch-label": { fontSize: "80%" },
+  "&light .cm-isearch-failing .cm-isearch-query": { backgroundColor: "#ff000033" },
+  "&dark .cm-isearch-failing .cm-isearch-query": { backgroundColor: "#ff000055" },
+});
+
+const incrementalSearchExtensions = [incrementalSearchState, handleKeys, baseTheme];
+
+/// Enable Emacs-style incremental search. Ctrl-s and Ctrl-r start a
+/// search forward or backward. While searching, a prompt at the
+/// bottom of the editor shows the query, and each typed character
+/// moves the selection to the next match of the extended query
+/// (matching case-insensitively until an upper-case letter is typed).
+/// Ctrl-s and Ctrl-r move to the next and previous match, wrapping
+/// around the document after a failed search. Backspace undoes the
+/// last step, Enter (or any other command key) ends the search at the
+/// current match, and Escape or Ctrl-g cancels it, restoring the
+/// original selection.
+///
+/// This fits well with
+/// [`emacsStyleKeymap`](#commands.emacsStyleKeymap), which leaves
+/// these keys unbound.
+export function incrementalSearch(): Extension {
+  return [
+    incrementalSearchExtensions,
+    keymap.of([
+      { key: "Ctrl-s", run: incrementalSearchForward, preventDefault: true },
+      { key: "Ctrl-r", run: incrementalSearchBackward, preventDefault: true },
+    ]),
+  ];
+}
@@ -0,0 +1,403 @@
+import {
+  EditorState,
+  EditorSelection,
+  StateField,
+  StateEffect,
+  Transaction,
+  ChangeDesc,
+  Text,
+} from "@/state/index";
+import { EditorView, Panel, ViewUpdate, showPanel, getPanel } from "@/view/index";
+import elt from "crelt";
+import type { SearchQuery } from "./search";
+
+/// A document taking part in a [multi-document
+/// search](#search.searchDocuments).
+export interface SearchDocument {
+  /// The name shown for the document in the results panel.
+  name: string;
+  /// The editor that shows the document. When given, its current
+  /// state is searched, replacements are dispatched to it, and the
+  /// results panel jumps to it.
+  view?: EditorView;
+  /// The state to search, for documents that aren't open in a view.
+  state?: EditorState;
+}
+
+/// A match found by [`searchDocuments`](#search.searchDocuments).
+export interface DocumentMatch {
+  from: number;
+  to: number;
+  /// The number of the line the match starts on.
+  line: number;
+  /// The start of that line.
+  lineFrom: number;
+  /// The text of the line.
+  lineText: string;
+}
+
+/// The matches found in a single document.
+export interface DocumentSearchResult {
+  document: SearchDocument;
+  /// The content of the document when it was searched. The match
+  /// positions refer to this version of the document.
+  doc: Text;
+  matches: readonly DocumentMatch[];
+  /// Set when the search stopped at the match limit, so that there
+  /// may be more matches in the document.
+  capped: boolean;
+}
+
+/// The outcome of a replacement in a single document.
+export interface DocumentReplaceResult {
+  document: SearchDocument;
+  /// The number of replaced matches.
+  count: number;
+  /// The transaction that made the replacements. For documents with
+  /// a view it has already been dispatched. For other documents, the
+  /// new state can be taken from its `state` property.
+  transaction: Transaction;
+}
+
+function documentState(doc: SearchDocument) {
+  const state = doc.view ? doc.view.state : doc.state;
+  if (!state) throw new RangeError(`Search document ${doc.name} has neither a view nor a state`);
+  return state;
+}
+
+/// Search a set of documents for the given query. Returns the matches
+/// grouped by document, leaving out documents without matches. At
+/// most `limit` matches are collected per document.
+export function searchDocuments(
+  query: SearchQuery,
+  documents: readonly SearchDocument[],
+  limit = 1000
+): DocumentSearchResult[] {
+  const results: DocumentSearchResult[] = [];
+  if (!query.valid) return results;
+
+  for (const document of documents) {
+    const state = documentState(document);
+    const matches: DocumentMatch[] = [];
+    let capped = false;
+    for (const cursor = query.getCursor(state); ; ) {
+      const next = cursor.next();
+      if (next.done) break;
+      if (matches.length == limit) {
+        capped = true;
+        break;
+      }
+      const { from, to } = next.value,
+        line = state.doc.lineAt(from);
+      matches.push({ from, to, line: line.number, lineFrom: line.from, lineText: line.text });
+    }
+    if (matches.length) results.push({ document, doc: state.doc, matches, capped });
+  }
+
+  return results;
+}
+
+/// Replace all matches of the query in the given documents, with one
+/// transaction per document, so that each replacement can be undone
+/// separately in its own editor. Read-only documents and documents
+/// without matches are skipped.
+export function replaceAllInDocuments(
+  query: SearchQuery,
+  documents: readonly SearchDocument[]
+): DocumentReplaceResult[] {
+  const results: DocumentReplaceResult[] = [];
+  if (!query.valid) return results;
+  const type = query.create();
+
+  for (const document of documents) {
+    const state = documentState(document);
+    if (state.readOnly) continue;
+    const changes = type.matchAll(state, 1e9)!.map((match) => ({
+      from: match.from,
+      to: match.to,
+      insert: type.replacement(state, match),
+    }));
+    if (!changes.length) continue;
+    const transaction = state.update({
+      changes,
+      effects: EditorView.announce.of(state.phrase("replaced $ matches", changes.length) + "."),
+      userEvent: "input.replace.all",
+    });
+    if (document.view) document.view.dispatch(transaction);
+    results.push({ document, count: changes.length, transaction });
+  }
+
+  return results;
+}
+
+/// Options for
+/// [`showDocumentSearchResults`](#search.showDocumentSearchResults).
+export interface DocumentSearchResultsConfig {
+  /// Called when a match in a document without a view is picked, or
+  /// to open such a document in some other way.
+  open?: (document: SearchDocument, match: DocumentMatch) => void;
+}
+
+interface ResultsState {
+  results: readonly DocumentSearchResult[];
+  config: DocumentSearchResultsConfig;
+}
+
+const setResults = StateEffect.define<ResultsState | null>();
+
+// Move the matches of a result through changes made to its document.
+// Matches whose text was deleted are dropped, and the line information
+// is taken from the new document.
+function mapResult(result: DocumentSearchResult, changes: ChangeDesc, doc: Text) {
+  const matches: DocumentMatch[] = [];
+  for (const match of result.matches) {
+    const from = changes.mapPos(match.from, 1),
+      to = Math.max(from, changes.mapPos(match.to, -1));
+    if (from == to && match.from < match.to) continue;
+    const line = doc.lineAt(from);
+    matches.push({ from, to, line: line.number, lineFrom: line.from, lineText: line.text });
+  }
+  return { ...result, doc, matches };
+}
+
+const resultsState = StateField.define<ResultsState | null>({
+  create() {
+    return null;
+  },
+  update(value, tr) {
+    // Results for the document of this editor are kept in sync with
+    // its changes. Those for other documents are checked for changes
+    // when a match is picked.
+    if (value && tr.docChanged && value.results.some((r) => r.doc == tr.startState.doc))
+      value = {
+        ...value,
+        results: value.results
+          .map((r) => (r.doc == tr.startState.doc ? mapResult(r, tr.changes, tr.newDoc) : r))
+          .filter((r) => r.matches.length),
+      };
+    for (const effect of tr.effects) if (effect.is(setResults)) value = effect.value;
+    return value;
+  },
+  provide: (f) => showPanel.from(f, (val) => (val ? createResultsPanel : null)),
+});
+
+const enum Context {
+  // The amount of line text shown around a match.
+  Margin = 40,
+}
+
+// Returns false when the document was changed in a way the results
+// couldn't follow, so that the match positions are no longer valid.
+function jumpTo(
+  result: DocumentSearchResult,
+  match: DocumentMatch,
+  config: DocumentSearchResultsConfig
+) {
+  const { document } = result,
+    { view } = document;
+  if (!view) {
+    if (config.open) config.open(document, match);
+    return true;
+  }
+  if (view.state.doc != result.doc) return false;
+  const selection = EditorSelection.single(match.from, match.to);
+  view.dispatch({
+    selection,
+    effects: EditorView.scrollIntoView(selection.main, { y: "center" }),
+    userEvent: "select.search",
+  });
+  view.focus();
+  return true;
+}
+
+function renderMatch(
+  view: EditorView,
+  result: DocumentSearchResult,
+  match: DocumentMatch,
+  config: DocumentSearchResultsConfig
+) {
+  const start = match.from - match.lineFrom,
+    end = Math.min(match.lineText.length, match.to - match.lineFrom);
+  const before = match.lineText.slice(Math.max(0, start - Context.Margin), start);
+  const after = match.lineText.slice(end, end + Context.Margin);
+  const pick = (event: Event) => {
+    if (jumpTo(result, match, config)) return;
+    // Mark the whole document as outdated, since none of its
+    // positions can be trusted anymore.
+    const group = (event.currentTarget as HTMLElement).closest(".cm-documentSearch-document")!;
+    group.classList.add("cm-documentSearch-stale");
+    group.setAttribute("title", view.state.phrase("document changed, search again"));
+  };
+  return elt(
+    "li",
+    {
+      class: "cm-documentSearch-match",
+      tabindex: "0",
+      "aria-label": view.state.phrase("line $", match.line) + ": " + match.lineText.trim(),
+      onclick: pick,
+      onkeydown: (event: KeyboardEvent) => {
+        if (event.keyCode == 13) {
+          // Enter
+          event.preventDefault();
+          pick(event);
+        }
+      },
+    },
+    elt("span", { class: "cm-documentSearch-line" }, String(match.line)),
+    (start > Context.Margin ? "…" : "") + before.trimStart(),
+    elt("span", { class: "cm-documentSearch-matchText" }, match.lineText.slice(start, end)),
+    after
+  );
+}
+
+function renderResults(view: EditorView, { results, config }: ResultsState) {
+  const total = results.reduce((sum, r) => sum + r.matches.length, 0);
+  const summary = results.length
+    ? view.state.phrase("$ matches in $ documents", total, results.length)
+    : view.state.phrase("no matches");
+
+  return [
+    elt(
+      "div",
+      { class: "cm-documentSearch-summary" },
+      summary,
+      elt(
+        "button",
+        {
+          name: "close",
+          type: "button",
+          "aria-label": view.state.phrase("close"),
+          onclick: () => closeDocumentSearchResults(view),
+        },
+        "×"
+      )
+    ),
+    elt(
+      "ul",
+      { class: "cm-documentSearch-results" },
+      results.map((result) =>
+        elt(
+          "li",
+          { class: "cm-documentSearch-document" },
+          elt(
+            "div",
+            { class: "cm-documentSearch-name" },
+            result.document.name,
+            elt(
+              "span",
+              { class: "cm-documentSearch-count" },
+              String(result.matches.length) + (result.capped ? "+" : "")
+            )
+          ),
+          elt(
+            "ul",
+            null,
+            result.matches.map((match) => renderMatch(view, result, match, config))
+          )
+        )
+      )
+    ),
+  ];
+}
+
+function createResultsPanel(view: EditorView): Panel {
+  const dom = elt(
+    "div",
+    { class: "cm-documentSearch" },
+    renderResults(view, view.state.field(resultsState)!)
+  );
+
+  return {
+    dom,
+    top: false,
+    // The panel stays open when new results are shown, or when the
+    // results are mapped through changes, so it is redrawn then.
+    update(update: ViewUpdate) {
+      const value = update.state.field(resultsState);
+      if (value && value != update.startState.field(resultsState)) {
+        const scrollTop = dom.scrollTop;
+        dom.textContent = "";
+        for (const child of renderResults(view, value)) dom.appendChild(child);
+        dom.scrollTop = scrollTop;
+      }
+    },
+  };
+}
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-panel.cm-documentSearch": {
+    position: "relative",
+    maxHeight: "12em",
+    overflowY: "auto",
+    padding: "2px 6px 4px",
+    fontFamily: "monospace",
+    "& ul": { listStyle: "none", margin: 0, padding: 0 },
+    "& [name=close]": {
+      position: "absolute",
+      top: "0",
+      right: "4px",
+      backgroundColor: "inherit",
+      border: "none",
+      font: "inherit",
+      padding: 0,
+      margin: 0,
+    },
+  },
+  ".cm-documentSearch-summary": { fontSize: "80%", marginBottom: "2px" },
+  ".cm-documentSearch-name": { fontWeight: "bold" },
+  ".cm-documentSearch-stale": { opacity: 0.5, "& .cm-documentSearch-match": { cursor: "default" } },
+  ".cm-documentSearch-count": { fontWeight: "normal", fontSize: "80%", marginLeft: ".6em" },
+  ".cm-documentSearch-match": {
+    paddingLeft: "1em",
+    whiteSpace: "pre",
+    cursor: "pointer",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  ".cm-documentSearch-line": {
+    display: "inline-block",
+    minWidth: "3em",
+    marginRight: ".6em",
+    textAlign: "right",
+    opacity: 0.6,
+  },
+  "&light .cm-documentSearch-match:hover, &light .cm-documentSearch-match:focus": {
+    backgroundColor: "#0000000f",
+  },
+  "&dark .cm-documentSearch-match:hover, &dark .cm-documentSearch-match:focus": {
+    backgroundColor: "#ffffff14",
+  },
+  "&light .cm-documentSearch-matchText": { backgroundColor: "#ffff0054" },
+  "&dark .cm-documentSearch-matchText": { backgroundColor: "#00ffff8a" },
+});
+
+/// Show the results of
+/// [`searchDocuments`](#search.searchDocuments) in a panel in the
+/// given editor. Picking a match focuses the view of its document,
+/// selects the match, and scrolls it into view.
+///
+/// The results for the document of the editor itself follow the
+/// changes made to it. When another document was changed after the
+/// search, its matches are marked as outdated instead of jumping to
+/// positions that may no longer be right.
+export function showDocumentSearchResults(
+  view: EditorView,
+  results: readonly DocumentSearchResult[],
+  config: DocumentSearchResultsConfig = {}
+) {
+  const effects: StateEffect<unknown>[] = [setResults.of({ results, config })];
+  if (view.state.field(resultsState, false) === undefined)
+    effects.unshift(StateEffect.appendConfig.of([resultsState, baseTheme]));
+  view.dispatch({ effects });
+  const panel = getPanel(view, createResultsPanel);
+  const first =
+    panel && (panel.dom.querySelector(".cm-documentSearch-match") as HTMLElement | null);
+  if (first) first.focus();
+}
+
+/// Close the multi-document search results panel in the given view.
+export function closeDocumentSearchResults(view: EditorView) {
+  if (!view.state.field(resultsState, false)) return false;
+  view.dispatch({ effects: setResults.of(null) });
+  return true;
+}
@@ -5,16 +5,19 @@ import {
   Command,
   Decoration,
   DecorationSet,
+  WidgetType,
   runScopeHandlers,
   KeyBinding,
   PanelConstructor,
   showPanel,
   Panel,
   getPanel,
+  overviewRulerSource,
 } from "@/view/index";
 import {
   EditorState,
   StateField,
+  Transaction,
   StateEffect,
   EditorSelection,
   SelectionRange,
@@ -28,14 +31,36 @@ import {
   findClusterBreak,
   combineConfig,
 } from "@/state/index";
+import { syntaxTree } from "@/language/index";
 import elt from "crelt";
 import { SearchCursor } from "./cursor";
 import { RegExpCursor, validRegExp } from "./regexp";
 import { gotoLine } from "./goto-line";
+import { gotoSymbol, gotoSymbolKeymap } from "./goto-symbol";
+import { syntaxFilterTest } from "./syntax";
 import { selectNextOccurrence } from "./selection-match";
 
 export { highlightSelectionMatches } from "./selection-match";
-export { SearchCursor, RegExpCursor, gotoLine, selectNextOccurrence };
+export {
+  incrementalSearch,
+  incrementalSearchForward,
+  incrementalSearchBackward,
+} from "./incremental";
+export {
+  searchDocuments,
+  replaceAllInDocuments,
+  showDocumentSearchResults,
+  closeDocumentSearchResults,
+} from "./multi-document";
+export type {
+  SearchDocument,
+  DocumentMatch,
+  DocumentSearchResult,
+  DocumentReplaceResult,
+  DocumentSearchResultsConfig,
+} from "./multi-document";
+export { SearchCursor, RegExpCursor, gotoLine, gotoSymbol, gotoSymbolKeymap, selectNextOccurrence };
+export type { DocumentSymbol, SymbolSource } from "./goto-symbol";
 
 interface SearchConfig {
   /// Whether to position the search panel at the top of the editor
@@ -57,6 +82,16 @@ interface SearchConfig {
   /// Defaults to false.
   regexp?: boolean;
 
+  /// Whether replacements preserve the case of the matches by
+  /// default. Defaults to false.
+  preserveCase?: boolean;
+
+  /// Opt in to a preview of replacements: while the search panel has
+  /// replace text, the matches in view are shown struck through,
+  /// followed by the text they would be replaced with. Defaults to
+  /// false.
+  replacePreview?: boolean;
+
   /// Can be used to override the way the search panel is implemented.
   /// Should create a [Panel](#view.Panel) that contains a form
   /// which lets the user:
@@ -79,6 +114,31 @@ interface SearchConfig {
   /// This option allows you to pass a custom function to produce the
   /// scroll effect.
   scrollToMatch?: (range: SelectionRange, view: EditorView) => StateEffect<unknown>;
+
+  /// The maximum number of entries kept in the
+  /// [search history](#search.searchHistory) of each field. Defaults
+  /// to 50.
+  historySize?: number;
+
+  /// Can be used to persist the search history. Its `load` method is
+  /// called when the search state is created, and `save` whenever
+  /// the history changes.
+  historyStorage?: SearchHistoryStorage | null;
+}
+
+/// The queries and replacements that were used recently, most recent
+/// first.
+export interface SearchHistory {
+  readonly search: readonly string[];
+  readonly replace: readonly string[];
+}
+
+/// An object that loads and saves the
+/// [search history](#search.searchHistory), for example in
+/// `localStorage`.
+export interface SearchHistoryStorage {
+  load(): SearchHistory | null;
+  save(history: SearchHistory): void;
 }
 
 const searchConfigFacet: Facet<SearchConfig, Required<SearchConfig>> = Facet.define({
@@ -89,8 +149,12 @@ const searchConfigFacet: Facet<SearchConfig, Required<SearchConfig>> = Facet.def
       literal: false,
       regexp: false,
       wholeWord: false,
+      preserveCase: false,
+      replacePreview: false,
       createPanel: (view) => new SearchPanel(view),
       scrollToMatch: (range) => EditorView.scrollIntoView(range),
+      historySize: 50,
+      historyStorage: null,
     });
   },
 });
@@ -125,6 +189,22 @@ export class SearchQuery {
   /// When true, matches that contain words are ignored when there are
   /// further word characters around them.
   readonly wholeWord: boolean;
+  /// When true, only matches inside the ranges that were selected
+  /// when this option was turned on are found.
+  readonly inSelection: boolean;
+  /// When true, the replacement is adapted to the case of each match,
+  /// so that replacing `foo` with `bar` turns `Foo` into `Bar` and
+  /// `FOO` into `BAR`.
+  readonly preserveCase: boolean;
+  /// A filter that restricts matches by the syntax nodes around them,
+  /// or the empty string. It holds node names separated by spaces.
+  /// Matches must be inside a node of one of the plain names (for
+  /// example `Comment`), must not be inside nodes whose name is
+  /// prefixed with `-` (as in `-String`), and must cover a whole node
+  /// of one of the types prefixed with `=`. So a regular expression
+  /// search for `foo\(.*\)` with filter `=CallExpression` finds the
+  /// calls to `foo`.
+  readonly syntax: string;
 
   /// @internal
   readonly unquoted: string;
@@ -145,6 +225,12 @@ export class SearchQuery {
     replace?: string;
     /// Enable whole-word matching.
     wholeWord?: boolean;
+    /// Limit the search to the selected ranges.
+    inSelection?: boolean;
+    /// Adapt replacements to the case of the matches.
+    preserveCase?: boolean;
+    /// A syntax filter.
+    syntax?: string;
   }) {
     this.search = config.search;
     this.caseSensitive = !!config.caseSensitive;
@@ -154,6 +240,9 @@ export class SearchQuery {
     this.valid = !!this.search && (!this.regexp || validRegExp(this.search));
     this.unquoted = this.unquote(this.search);
     this.wholeWord = !!config.wholeWord;
+    this.inSelection = !!config.inSelection;
+    this.preserveCase = !!config.preserveCase;
+    this.syntax = (config.syntax || "").trim();
   }
 
   /// @internal
@@ -172,7 +261,10 @@ export class SearchQuery {
       this.replace == other.replace &&
       this.caseSensitive == other.caseSensitive &&
       this.regexp == other.regexp &&
-      this.wholeWord == other.wholeWord
+      this.wholeWord == other.wholeWord &&
+      this.inSelection == other.inSelection &&
+      this.preserveCase == other.preserveCase &&
+      this.syntax == other.syntax
     );
   }
 
@@ -213,24 +305,71 @@ abstract class QueryType<Result extends SearchResult = SearchResult> {
     state: EditorState,
     from: number,
     to: number,
-    add: (from: number, to: number) => void
+    add: (from: number, to: number, result: Result) => void
   ): void;
+
+  // Get the text to replace the given match with, adapted to the case
+  // of the matched text when the query preserves case.
+  replacement(state: EditorState, result: Result) {
+    const text = this.getReplacement(result);
+    return this.spec.preserveCase ? matchCase(state.sliceDoc(result.from, result.to), text) : text;
+  }
+}
+
+function matchCase(match: string, text: string) {
+  const upper = match.toUpperCase(),
+    lower = match.toLowerCase();
+  if (upper == lower) return text;
+  if (match == upper && /\p{L}.*\p{L}/u.test(match)) return text.toUpperCase();
+  if (match == lower) return text.toLowerCase();
+  const first = /\p{L}/u.exec(match)![0];
+  if (first == first.toUpperCase()) return text.replace(/\p{L}/u, (ch) => ch.toUpperCase());
+  return text;
 }
 
 const enum FindPrev {
   ChunkSize = 10000,
 }
 
+// Get the ranges that matches must fall inside of when the query is
+// limited to the selection, if any.
+function searchScope(spec: SearchQuery, state: EditorState) {
+  return spec.inSelection ? state.field(searchState, false)?.scope ?? Decoration.none : null;
+}
+
+function inScope(scope: DecorationSet, from: number, to: number) {
+  let found = false;
+  scope.between(from, to, (rangeFrom, rangeTo) => {
+    if (rangeFrom <= from && rangeTo >= to) found = true;
+    return found ? false : undefined;
+  });
+  return found;
+}
+
+// Combine the tests for the scope and the syntax filter of a query.
+function matchFilter(spec: SearchQuery, state: EditorState) {
+  const scope = searchScope(spec, state),
+    syntax = spec.syntax ? syntaxFilterTest(spec.syntax, state) : null;
+  if (!scope && !syntax) return null;
+  return (from: number, to: number) =>
+    (!scope || inScope(scope, from, to)) && (!syntax || syntax(from, to));
+}
+
 function stringCursor(spec: SearchQuery, state: EditorState, from: number, to: number) {
+  const filter = matchFilter(spec, state);
+  const wordTest = spec.wholeWord
+    ? stringWordTest(state.doc, state.charCategorizer(state.selection.main.head))
+    : undefined;
   return new SearchCursor(
     state.doc,
     spec.unquoted,
     from,
     to,
     spec.caseSensitive ? undefined : (x) => x.toLowerCase(),
-    spec.wholeWord
-      ? stringWordTest(state.doc, state.charCategorizer(state.selection.main.head))
-      : undefined
+    filter
+      ? (from, to, buf, bufPos) =>
+          filter(from, to) && (!wordTest || wordTest(from, to, buf, bufPos))
+      : wordTest
   );
 }
 
@@ -304,14 +443,19 @@ class StringQuery extends QueryType<SearchResult> {
     return ranges;
   }
 
-  highlight(state: EditorState, from: number, to: number, add: (from: number, to: number) => void) {
+  highlight(
+    state: EditorState,
+    from: number,
+    to: number,
+    add: (from: number, to: number, result: SearchResult) => void
+  ) {
     const cursor = stringCursor(
       this.spec,
       state,
       Math.max(0, from - this.spec.unquoted.length),
       Math.min(to + this.spec.unquoted.length, state.doc.length)
     );
-    while (!cursor.next().done) add(cursor.value.from, cursor.value.to);
+    while (!cursor.next().done) add(cursor.value.from, cursor.value.to, cursor.value);
   }
 }
 
@@ -322,14 +466,18 @@ const enum RegExp {
 type RegExpResult = typeof RegExpCursor.prototype.value;
 
 function regexpCursor(spec: SearchQuery, state: EditorState, from: number, to: number) {
+  const filter = matchFilter(spec, state);
+  const wordTest = spec.wholeWord
+    ? regexpWordTest(state.charCategorizer(state.selection.main.head))
+    : undefined;
   return new RegExpCursor(
     state.doc,
     spec.search,
     {
       ignoreCase: !spec.caseSensitive,
-      test: spec.wholeWord
-        ? regexpWordTest(state.charCategorizer(state.selection.main.head))
-        : undefined,
+      test: filter
+        ? (from, to, match) => filter(from, to) && (!wordTest || wordTest(from, to, match))
+        : wordTest,
     },
     from,
     to
@@ -401,14 +549,19 @@ class RegExpQuery extends QueryType<RegExpResult> {
     return ranges;
   }
 
-  highlight(state: EditorState, from: number, to: number, add: (from: number, to: number) => void) {
+  highlight(
+    state: EditorState,
+    from: number,
+    to: number,
+    add: (from: number, to: number, result: RegExpResult) => void
+  ) {
     const cursor = regexpCursor(
       this.spec,
       state,
       Math.max(0, from - RegExp.HighlightMargin),
       Math.min(to + RegExp.HighlightMargin, state.doc.length)
     );
-    while (!cursor.next().done) add(cursor.value.from, cursor.value.to);
+    while (!cursor.next().done) add(cursor.value.from, cursor.value.to, cursor.value);
   }
 }
 
@@ -421,19 +574,45 @@ export const setSearchQuery = StateEffect.define<SearchQuery>();
 
 const togglePanel = StateEffect.define<boolean>();
 
+const scopeMark = Decoration.mark({ class: "cm-searchScope" });
+
+// Mark the non-empty selected ranges as the scope of a search limited
+// to the selection. When nothing is selected, the scope is empty, and
+// nothing matches.
+function selectionScope(state: EditorState) {
+  return Decoration.set(
+    state.selection.ranges.filter((r) => !r.empty).map((r) => scopeMark.range(r.from, r.to)),
+    true
+  );
+}
+
 const searchState: StateField<SearchState> = StateField.define<SearchState>({
   create(state) {
     return new SearchState(defaultQuery(state).create(), null);
   },
   update(value, tr) {
+    if (tr.docChanged && value.scope)
+      value = new SearchState(value.query, value.panel, value.scope.map(tr.changes));
     for (const effect of tr.effects) {
-      if (effect.is(setSearchQuery)) value = new SearchState(effect.value.create(), value.panel);
-      else if (effect.is(togglePanel))
-        value = new SearchState(value.query, effect.value ? createSearchPanel : null);
+      if (effect.is(setSearchQuery)) {
+        // The scope is taken from the selection when the option is
+        // turned on, and kept as long as it stays on.
+        const scope = !effect.value.inSelection
+          ? null
+          : value.query.spec.inSelection && value.scope
+          ? value.scope
+          : selectionScope(tr.state);
+        value = new SearchState(effect.value.create(), value.panel, scope);
+      } else if (effect.is(togglePanel)) {
+        value = new SearchState(value.query, effect.value ? createSearchPanel : null, value.scope);
+      }
     }
     return value;
   },
-  provide: (f) => showPanel.from(f, (val) => val.panel),
+  provide: (f) => [
+    showPanel.from(f, (val) => val.panel),
+    EditorView.decorations.from(f, (val) => (val.panel && val.scope) || Decoration.none),
+  ],
 });
 
 /// Get the current search query from an editor state.
@@ -448,11 +627,223 @@ export function searchPanelOpen(state: EditorState) {
 }
 
 class SearchState {
-  constructor(readonly query: QueryType, readonly panel: PanelConstructor | null) {}
+  constructor(
+    readonly query: QueryType,
+    readonly panel: PanelConstructor | null,
+    // The ranges a search limited to the selection is done in.
+    readonly scope: DecorationSet | null = null
+  ) {}
+}
+
+function addHistory(entries: readonly string[], entry: string, size: number) {
+  if (!entry || entries[0] == entry) return entries;
+  return [entry, ...entries.filter((e) => e != entry)].slice(0, size);
+}
+
+/// A state field holding the search history. Whenever a search
+/// command finds or replaces something, the query and replace text
+/// that were used are added to it. Custom [search
+/// panels](#search.SearchConfig.createPanel) can use this to let the
+/// user recall earlier queries.
+export const searchHistory: StateField<SearchHistory> = StateField.define<SearchHistory>({
+  create(state) {
+    const { historyStorage, historySize } = state.facet(searchConfigFacet);
+    const stored = historyStorage && historyStorage.load();
+    return {
+      search: stored ? stored.search.slice(0, historySize) : [],
+      replace: stored ? stored.replace.slice(0, historySize) : [],
+    };
+  },
+  update(value, tr) {
+    const searching = tr.isUserEvent("select.search"),
+      replacing = tr.isUserEvent("input.replace");
+    if (!searching && !replacing) return value;
+    const { spec } = tr.state.field(searchState).query;
+    const size = tr.state.facet(searchConfigFacet).historySize;
+    const search = addHistory(value.search, spec.search, size),
+      replace = replacing ? addHistory(value.replace, spec.replace, size) : value.replace;
+    return search == value.search && replace == value.replace ? value : { search, replace };
+  },
+});
+
+const saveHistory = EditorView.updateListener.of((update) => {
+  const history = update.state.field(searchHistory, false);
+  const storage = update.state.facet(searchConfigFacet).historyStorage;
+  if (storage && history && history != update.startState.field(searchHistory, false))
+    storage.save(history);
+});
+
+const enum MatchCount {
+  // The amount of matches at which counting stops.
+  Max = 1000,
+}
+
+/// The result of [`searchMatchCount`](#search.searchMatchCount).
+export interface SearchMatchCount {
+  /// The (one-based) index of the match that is selected by the main
+  /// selection, or null when the selection isn't on a match.
+  current: number | null;
+  /// The number of matches in the document.
+  total: number;
+  /// When true, counting stopped at `total` matches, and there may be
+  /// more of them.
+  capped: boolean;
+}
+
+type MatchRange = { from: number; to: number };
+
+// Add a match to a sorted list, unless it overlaps the last match.
+function addMatch(ranges: MatchRange[], from: number, to: number) {
+  const last = ranges.length ? ranges[ranges.length - 1] : null;
+  if (!last || (from >= last.to && (from > last.from || to > last.to))) ranges.push({ from, to });
+}
+
+class SearchMatches {
+  constructor(
+    readonly query: QueryType,
+    readonly ranges: readonly MatchRange[],
+    readonly capped: boolean
+  ) {}
+
+  static count(query: QueryType, state: EditorState) {
+    const ranges: MatchRange[] = [];
+    for (const cursor = query.spec.getCursor(state); ; ) {
+      const next = cursor.next();
+      if (next.done) break;
+      if (ranges.length == MatchCount.Max) return new SearchMatches(query, ranges, true);
+      ranges.push({ from: next.value.from, to: next.value.to });
+    }
+    return new SearchMatches(query, ranges, false);
+  }
+
+  // Update the matches for a document change by searching the
+  // changed regions (plus a margin around them) again, and mapping
+  // the matches outside of them.
+  map(tr: Transaction) {
+    // Edits can change the syntax tree far away from them, so
+    // queries with a syntax filter are counted again.
+    if (this.capped || this.query.spec.syntax) return SearchMatches.count(this.query, tr.state);
+
+    const { doc } = tr.state,
+      { regexp, unquoted } = this.query.spec;
+    const margin = regexp ? RegExp.HighlightMargin : unquoted.length + 2;
+    const regions: MatchRange[] = [];
+    tr.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+      let from = Math.max(0, fromB - margin),
+        to = Math.min(doc.length, toB + margin);
+      if (regexp) {
+        from = doc.lineAt(from).from;
+        to = doc.lineAt(to).to;
+      }
+      const last = regions[regions.length - 1];
+      if (last && last.to >= from) last.to = Math.max(last.to, to);
+      else regions.push({ from, to });
+    });
+
+    const ranges: MatchRange[] = [];
+    const mapped = (i: number) => ({
+      from: tr.changes.mapPos(this.ranges[i].from, 1),
+      to: tr.changes.mapPos(this.ranges[i].to, -1),
+    });
+    let i = 0;
+    for (const region of regions) {
+      // Keep the matches before the region, and drop those inside it.
+      for (; i < this.ranges.length; i++) {
+        const { from, to } = mapped(i);
+        if (from > region.to) break;
+        if (from < region.from) addMatch(ranges, from, to);
+      }
+      const cursor = this.query.spec.getCursor(
+        tr.state,
+        region.from,
+        Math.min(doc.length, region.to + margin)
+      );
+      for (
+        let next = cursor.next();
+        !next.done && next.value.from <= region.to;
+        next = cursor.next()
+      )
+        addMatch(ranges, next.value.from, next.value.to);
+    }
+    for (; i < this.ranges.length; i++) {
+      const { from, to } = mapped(i);
+      addMatch(ranges, from, to);
+    }
+
+    return ranges.length > MatchCount.Max
+      ? new SearchMatches(this.query, ranges.slice(0, MatchCount.Max), true)
+      : new SearchMatches(this.query, ranges, false);
+  }
+}
+
+const searchMatches = StateField.define<SearchMatches | null>({
+  create(state) {
+    const { query, panel } = state.field(searchState);
+    return panel && query.spec.valid ? SearchMatches.count(query, state) : null;
+  },
+  update(value, tr) {
+    const { query, panel } = tr.state.field(searchState);
+    if (!panel || !query.spec.valid) return null;
+    if (!value || value.query != query) return SearchMatches.count(query, tr.state);
+    if (tr.docChanged) return value.map(tr);
+    return query.spec.syntax && syntaxTree(tr.state) != syntaxTree(tr.startState)
+      ? SearchMatches.count(query, tr.state)
+      : value;
+  },
+});
+
+const noMatches: readonly MatchRange[] = [];
+
+const matchRulerSource = overviewRulerSource.of({
+  class: "cm-overviewRuler-searchMatch",
+  markers: (view) => view.state.field(searchMatches, false)?.ranges ?? noMatches,
+  markersChange: (update) =>
+    update.startState.field(searchMatches, false) != update.state.field(searchMatches, false),
+});
+
+/// Count the matches of the current search query, and find the
+/// position of the selected match among them. Counting stops after a
+/// thousand matches. Returns null when the search panel isn't open or
+/// the query isn't valid.
+export function searchMatchCount(state: EditorState): SearchMatchCount | null {
+  const matches = state.field(searchMatches, false);
+  if (!matches) return null;
+
+  const { ranges, capped } = matches,
+    { from, to } = state.selection.main;
+  let lo = 0,
+    hi = ranges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (ranges[mid].from < from) lo = mid + 1;
+    else hi = mid;
+  }
+  const current =
+    lo < ranges.length && ranges[lo].from == from && ranges[lo].to == to ? lo + 1 : null;
+  return { current, total: ranges.length, capped };
 }
 
 const matchMark = Decoration.mark({ class: "cm-searchMatch" }),
-  selectedMatchMark = Decoration.mark({ class: "cm-searchMatch cm-searchMatch-selected" });
+  selectedMatchMark = Decoration.mark({ class: "cm-searchMatch cm-searchMatch-selected" }),
+  replacedMatchMark = Decoration.mark({ class: "cm-searchMatch cm-searchMatch-replaced" }),
+  selectedReplacedMatchMark = Decoration.mark({
+    class: "cm-searchMatch cm-searchMatch-selected cm-searchMatch-replaced",
+  });
+
+// Shows the text a match would be replaced with.
+class ReplacementWidget extends WidgetType {
+  constructor(readonly text: string) {
+    super();
+  }
+
+  eq(other: ReplacementWidget) {
+    return other.text == this.text;
+  }
+
+  toDOM() {
+    return elt("span", { class: "cm-searchReplacement" }, this.text);
+  }
+}
 
 const searchHighlighter = ViewPlugin.fromClass(
   class {
@@ -468,7 +859,8 @@ const searchHighlighter = ViewPlugin.fromClass(
         state != update.startState.field(searchState) ||
         update.docChanged ||
         update.selectionSet ||
-        update.viewportChanged
+        update.viewportChanged ||
+        (state.query.spec.syntax && syntaxTree(update.state) != syntaxTree(update.startState))
       )
         this.decorations = this.highlight(state);
     }
@@ -476,6 +868,10 @@ const searchHighlighter = ViewPlugin.fromClass(
     highlight({ query, panel }: SearchState) {
       if (!panel || !query.spec.valid) return Decoration.none;
       const { view } = this;
+      const preview =
+        !!query.spec.replace &&
+        !view.state.readOnly &&
+        view.state.facet(searchConfigFacet).replacePreview;
       const builder = new RangeSetBuilder<Decoration>();
       for (let i = 0, ranges = view.visibleRanges, l = ranges.length; i < l; i++) {
         const from = ranges[i].from;
@@ -483,9 +879,20 @@ const searchHighlighter = ViewPlugin.fromClass(
 
         while (i < l - 1 && to > ranges[i + 1].from - 2 * RegExp.HighlightMargin)
           to = ranges[++i].to;
-        query.highlight(view.state, from, to, (from, to) => {
+        query.highlight(view.state, from, to, (from, to, result) => {
           const selected = view.state.selection.ranges.some((r) => r.from == from && r.to == to);
-          builder.add(from, to, selected ? selectedMatchMark : matchMark);
+          if (!preview) {
+            builder.add(from, to, selected ? selectedMatchMark : matchMark);
+            return;
+          }
+          builder.add(from, to, selected ? selectedReplacedMatchMark : replacedMatchMark);
+          const text = query.replacement(view.state, result);
+          if (text)
+            builder.add(
+              to,
+              to,
+              Decoration.widget({ widget: new ReplacementWidget(text), side: 1 })
+            );
         });
       }
       return builder.finish();
@@ -585,7 +992,7 @@ export const replaceNext = searchCommand((view, { query }) => {
   let replacement: Text | undefined;
   const effects: StateEffect<unknown>[] = [];
   if (next.from == from && next.to == to) {
-    replacement = state.toText(query.getReplacement(next));
+    replacement = state.toText(query.replacement(state, next));
     changes.push({ from: next.from, to: next.to, insert: replacement });
     next = query.nextMatch(state, next.from, next.to);
     effects.push(
@@ -618,7 +1025,7 @@ export const replaceAll = searchCommand((view, { query }) => {
   if (view.state.readOnly) return false;
   const changes = query.matchAll(view.state, 1e9)!.map((match) => {
     const { from, to } = match;
-    return { from, to, insert: query.getReplacement(match) };
+    return { from, to, insert: query.replacement(view.state, match) };
   });
   if (!changes.length) return false;
   const announceText = view.state.phrase("replaced $ matches", changes.length) + ".";
@@ -637,7 +1044,7 @@ function createSearchPanel(view: EditorView) {
 function defaultQuery(state: EditorState, fallback?: SearchQuery) {
   const sel = state.selection.main;
   const selText = sel.empty || sel.to > sel.from + 100 ? "" : state.sliceDoc(sel.from, sel.to);
-  if (fallback && !selText) return fallback;
+  if (fallback && (!selText || fallback.inSelection)) return fallback;
   const config = state.facet(searchConfigFacet);
   return new SearchQuery({
     search: fallback?.literal ?? config.literal ? selText : selText.replace(/\n/g, "\\n"),
@@ -645,6 +1052,9 @@ function defaultQuery(state: EditorState, fallback?: SearchQuery) {
     literal: fallback?.literal ?? config.literal,
     regexp: fallback?.regexp ?? config.regexp,
     wholeWord: fallback?.wholeWord ?? config.wholeWord,
+    inSelection: fallback?.inSelection,
+    preserveCase: fallback?.preserveCase ?? config.preserveCase,
+    syntax: fallback?.syntax,
   });
 }
 
@@ -727,8 +1137,18 @@ class SearchPanel implements Panel {
   caseField: HTMLInputElement;
   reField: HTMLInputElement;
   wordField: HTMLInputElement;
+  selectionField: HTMLInputElement;
+  preserveCaseField: HTMLInputElement;
+  syntaxToggle: HTMLInputElement;
+  syntaxField: HTMLInputElement;
+  countField: HTMLElement;
   dom: HTMLElement;
   query: SearchQuery;
+  // The position in the history of the search and replace fields
+  // while browsing it (-1 when not browsing), and the text the user
+  // had typed before starting to browse.
+  historyPos = { search: -1, replace: -1 };
+  draft = { search: "", replace: "" };
 
   constructor(readonly view: EditorView) {
     const query = (this.query = view.state.field(searchState).query.spec);
@@ -744,6 +1164,7 @@ class SearchPanel implements Panel {
       "main-field": "true",
       onchange: this.commit,
       onkeyup: this.commit,
+      oninput: () => (this.historyPos.search = -1),
     }) as HTMLInputElement;
     this.replaceField = elt("input", {
       value: query.replace,
@@ -754,6 +1175,7 @@ class SearchPanel implements Panel {
       form: "",
       onchange: this.commit,
       onkeyup: this.commit,
+      oninput: () => (this.historyPos.replace = -1),
     }) as HTMLInputElement;
     this.caseField = elt("input", {
       type: "checkbox",
@@ -776,6 +1198,44 @@ class SearchPanel implements Panel {
       checked: query.wholeWord,
       onchange: this.commit,
     }) as HTMLInputElement;
+    this.selectionField = elt("input", {
+      type: "checkbox",
+      name: "sel",
+      form: "",
+      checked: query.inSelection,
+      onchange: this.commit,
+    }) as HTMLInputElement;
+    this.syntaxToggle = elt("input", {
+      type: "checkbox",
+      name: "syntax",
+      form: "",
+      checked: !!query.syntax,
+      onchange: () => {
+        this.syntaxField.hidden = !this.syntaxToggle.checked;
+        if (this.syntaxToggle.checked) this.syntaxField.focus();
+        this.commit();
+      },
+    }) as HTMLInputElement;
+    this.syntaxField = elt("input", {
+      value: query.syntax,
+      placeholder: phrase(view, "Node types"),
+      "aria-label": phrase(view, "Syntax filter"),
+      class: "cm-textfield",
+      name: "syntaxFilter",
+      form: "",
+      hidden: !query.syntax,
+      onchange: this.commit,
+      onkeyup: this.commit,
+    }) as HTMLInputElement;
+    this.preserveCaseField = elt("input", {
+      type: "checkbox",
+      name: "preserve",
+      form: "",
+      checked: query.preserveCase,
+      onchange: this.commit,
+    }) as HTMLInputElement;
+    this.countField = elt("span", { class: "cm-search-count" });
+    this.updateCount();
 
     function button(name: string, onclick: () => void, content: (Node | string)[]) {
       return elt("button", { class: "cm-button", name, onclick, type: "button" }, content);
@@ -788,9 +1248,13 @@ class SearchPanel implements Panel {
         button("next", () => findNext(view), [phrase(view, "next")]),
         button("prev", () => findPrevious(view), [phrase(view, "previous")]),
         button("select", () => selectMatches(view), [phrase(view, "all")]),
+        this.countField,
         elt("label", null, [this.caseField, phrase(view, "match case")]),
         elt("label", null, [this.reField, phrase(view, "regexp")]),
         elt("label", null, [this.wordField, phrase(view, "by word")]),
+        elt("label", null, [this.selectionField, phrase(view, "in selection")]),
+        elt("label", null, [this.syntaxToggle, phrase(view, "by syntax")]),
+        this.syntaxField,
         ...(view.state.readOnly
           ? []
           : [
@@ -798,6 +1262,7 @@ class SearchPanel implements Panel {
               this.replaceField,
               button("replace", () => replaceNext(view), [phrase(view, "replace")]),
               button("replaceAll", () => replaceAll(view), [phrase(view, "replace all")]),
+              elt("label", null, [this.preserveCaseField, phrase(view, "preserve case")]),
             ]),
         elt(
           "button",
@@ -819,6 +1284,9 @@ class SearchPanel implements Panel {
       caseSensitive: this.caseField.checked,
       regexp: this.reField.checked,
       wholeWord: this.wordField.checked,
+      inSelection: this.selectionField.checked,
+      syntax: this.syntaxToggle.checked ? this.syntaxField.value : "",
+      preserveCase: this.preserveCaseField.checked,
       replace: this.replaceField.value,
     });
     if (!query.eq(this.query)) {
@@ -836,14 +1304,57 @@ class SearchPanel implements Panel {
     } else if (e.keyCode == 13 && e.target == this.replaceField) {
       e.preventDefault();
       replaceNext(this.view);
+    } else if (
+      (e.keyCode == 38 || e.keyCode == 40) &&
+      !(e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) &&
+      (e.target == this.searchField || e.target == this.replaceField)
+    ) {
+      const name = e.target == this.searchField ? "search" : "replace";
+      if (this.browseHistory(name, e.keyCode == 38 ? 1 : -1)) e.preventDefault();
     }
   }
 
+  // Move through the search history of the given field. Returns false
+  // when there is no further entry in that direction.
+  browseHistory(name: "search" | "replace", dir: 1 | -1) {
+    const field = name == "search" ? this.searchField : this.replaceField;
+    const entries = this.view.state.field(searchHistory)[name];
+    const pos = this.historyPos[name] + dir;
+    if (pos < -1 || pos >= entries.length) return false;
+    if (this.historyPos[name] == -1) this.draft[name] = field.value;
+    this.historyPos[name] = pos;
+    field.value = pos == -1 ? this.draft[name] : entries[pos];
+    field.setSelectionRange(field.value.length, field.value.length);
+    this.commit();
+    return true;
+  }
+
   update(update: ViewUpdate) {
     for (const tr of update.transactions)
       for (const effect of tr.effects) {
         if (effect.is(setSearchQuery) && !effect.value.eq(this.query)) this.setQuery(effect.value);
       }
+    if (
+      update.docChanged ||
+      update.selectionSet ||
+      update.state.field(searchMatches, false) != update.startState.field(searchMatches, false)
+    )
+      this.updateCount();
+  }
+
+  updateCount() {
+    const count = searchMatchCount(this.view.state);
+    let text = "";
+    if (count) {
+      const total = count.total + (count.capped ? "+" : "");
+      text =
+        count.total == 0
+          ? phrase(this.view, "no matches")
+          : count.current
+          ? this.view.state.phrase("$ of $", count.current, total)
+          : this.view.state.phrase("$ matches", total);
+    }
+    this.countField.textContent = text;
   }
 
   setQuery(query: SearchQuery) {
@@ -853,6 +1364,11 @@ class SearchPanel implements Panel {
     this.caseField.checked = query.caseSensitive;
     this.reField.checked = query.regexp;
     this.wordField.checked = query.wholeWord;
+    this.selectionField.checked = query.inSelection;
+    this.syntaxToggle.checked = !!query.syntax;
+    this.syntaxField.hidden = !query.syntax;
+    if (query.syntax) this.syntaxField.value = query.syntax;
+    this.preserveCaseField.checked = query.preserveCase;
   }
 
   mount() {
@@ -927,6 +1443,11 @@ const baseTheme = EditorView.baseTheme({
       fontSize: "80%",
       whiteSpace: "pre",
     },
+    "& .cm-search-count": {
+      fontSize: "80%",
+      marginRight: ".6em",
+      whiteSpace: "pre",
+    },
   },
 
   "&light .cm-searchMatch": { backgroundColor: "#ffff0054" },
@@ -934,6 +1455,24 @@ const baseTheme = EditorView.baseTheme({
 
   "&light .cm-searchMatch-selected": { backgroundColor: "#ff6a0054" },
   "&dark .cm-searchMatch-selected": { backgroundColor: "#ff00ff8a" },
+
+  ".cm-searchMatch-replaced": { textDecoration: "line-through" },
+  ".cm-searchReplacement": { textDecoration: "underline" },
+  "&light .cm-searchReplacement": { backgroundColor: "#00c80033" },
+  "&dark .cm-searchReplacement": { backgroundColor: "#00ff0033" },
+
+  ".cm-overviewRuler-tick.cm-overviewRuler-searchMatch": { backgroundColor: "#e0a000" },
+
+  "&light .cm-searchScope": { backgroundColor: "#0064ff14" },
+  "&dark .cm-searchScope": { backgroundColor: "#4d9dff26" },
 });
 
-const searchExtensions = [searchState, Prec.low(searchHighlighter), baseTheme];
+const searchExtensions = [
+  searchState,
+  searchMatches,
+  matchRulerSource,
+  searchHistory,
+  saveHistory,
+  Prec.low(searchHighlighter),
+  baseTheme,
+];
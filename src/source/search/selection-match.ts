@@ -1,4 +1,11 @@
-import { EditorView, ViewPlugin, Decoration, DecorationSet, ViewUpdate } from "@/view/index";
+import {
+  EditorView,
+  ViewPlugin,
+  Decoration,
+  DecorationSet,
+  ViewUpdate,
+  overviewRulerSource,
+} from "@/view/index";
 import {
   Facet,
   combineConfig,
@@ -7,6 +14,7 @@ import {
   EditorSelection,
   EditorState,
   StateCommand,
+  Text,
 } from "@/state/index";
 import { SearchCursor } from "./cursor";
 
@@ -46,7 +54,7 @@ const highlightConfig = Facet.define<HighlightOptions, Required<HighlightOptions
 /// `highlightWordAroundCursor` is enabled, the word at the cursor
 /// itself will be highlighted with `"cm-selectionMatch-main"`.
 export function highlightSelectionMatches(options?: HighlightOptions): Extension {
-  const ext = [defaultTheme, matchHighlighter];
+  const ext = [defaultTheme, matchHighlighter, matchRulerSource];
   if (options) ext.push(highlightConfig.of(options));
   return ext;
 }
@@ -80,6 +88,42 @@ function insideWord(
   );
 }
 
+// Find the text to highlight for the current selection, and the
+// character categorizer to check word boundaries with, if any.
+function selectionQuery(state: EditorState) {
+  const conf = state.facet(highlightConfig);
+  const sel = state.selection;
+  if (sel.ranges.length > 1) return null;
+  const range = sel.main;
+  let query,
+    check = null;
+  if (range.empty) {
+    if (!conf.highlightWordAroundCursor) return null;
+    const word = state.wordAt(range.head);
+    if (!word) return null;
+    check = state.charCategorizer(range.head);
+    query = state.sliceDoc(word.from, word.to);
+  } else {
+    const len = range.to - range.from;
+    if (len < conf.minSelectionLength || len > 200) return null;
+    if (conf.wholeWords) {
+      query = state.sliceDoc(range.from, range.to); // TODO: allow and include leading/trailing space?
+      check = state.charCategorizer(range.head);
+      if (
+        !(
+          insideWordBoundaries(check, state, range.from, range.to) &&
+          insideWord(check, state, range.from, range.to)
+        )
+      )
+        return null;
+    } else {
+      query = state.sliceDoc(range.from, range.to);
+      if (!query) return null;
+    }
+  }
+  return { query, check };
+}
+
 const matchHighlighter = ViewPlugin.fromClass(
   class {
     decorations: DecorationSet;
@@ -94,37 +138,12 @@ const matchHighlighter = ViewPlugin.fromClass(
     }
 
     getDeco(view: EditorView) {
-      const conf = view.state.facet(highlightConfig);
       const { state } = view;
-      const sel = state.selection;
-      if (sel.ranges.length > 1) return Decoration.none;
-      const range = sel.main;
-      let query,
-        check = null;
-      if (range.empty) {
-        if (!conf.highlightWordAroundCursor) return Decoration.none;
-        const word = state.wordAt(range.head);
-        if (!word) return Decoration.none;
-        check = state.charCategorizer(range.head);
-        query = state.sliceDoc(word.from, word.to);
-      } else {
-        const len = range.to - range.from;
-        if (len < conf.minSelectionLength || len > 200) return Decoration.none;
-        if (conf.wholeWords) {
-          query = state.sliceDoc(range.from, range.to); // TODO: allow and include leading/trailing space?
-          check = state.charCategorizer(range.head);
-          if (
-            !(
-              insideWordBoundaries(check, state, range.from, range.to) &&
-              insideWord(check, state, range.from, range.to)
-            )
-          )
-            return Decoration.none;
-        } else {
-          query = state.sliceDoc(range.from, range.to);
-          if (!query) return Decoration.none;
-        }
-      }
+      const range = state.selection.main;
+      const selQuery = selectionQuery(state);
+      if (!selQuery) return Decoration.none;
+      const { query, check } = selQuery;
+      const conf = state.facet(highlightConfig);
       const deco = [];
       for (const part of view.visibleRanges) {
         const cursor = new SearchCursor(state.doc, query, part.from, part.to);
@@ -146,9 +165,44 @@ const matchHighlighter = ViewPlugin.fromClass(
   }
 );
 
+const enum RulerMatches {
+  Max = 1000,
+}
+
+const noRulerMatches: readonly { from: number; to: number }[] = [];
+
+// The matches shown in the overview ruler, cached per document.
+const rulerMatches = new WeakMap<Text, { query: string; ranges: { from: number; to: number }[] }>();
+
+const matchRulerSource = overviewRulerSource.of({
+  class: "cm-overviewRuler-selectionMatch",
+  markers(view) {
+    const { state } = view;
+    const selQuery = selectionQuery(state);
+    if (!selQuery) return noRulerMatches;
+    const { query, check } = selQuery;
+    const cached = rulerMatches.get(state.doc);
+    if (cached && cached.query == query) return cached.ranges;
+    const ranges = [];
+    // Give up after a thousand matches, counting the ones that are
+    // skipped for not being on word boundaries.
+    let seen = 0;
+    for (const cursor = new SearchCursor(state.doc, query); !cursor.next().done; ) {
+      if (++seen > RulerMatches.Max) break;
+      const { from, to } = cursor.value;
+      if (check && !insideWordBoundaries(check, state, from, to)) continue;
+      ranges.push({ from, to });
+    }
+    rulerMatches.set(state.doc, { query, ranges });
+    return ranges;
+  },
+  markersChange: (update) => update.selectionSet,
+});
+
 const defaultTheme = EditorView.baseTheme({
   ".cm-selectionMatch": { backgroundColor: "#99ff7780" },
   ".cm-searchMatch .cm-selectionMatch": { backgroundColor: "transparent" },
+  ".cm-overviewRuler-tick.cm-overviewRuler-selectionMatch": { backgroundColor: "#60c040" },
 });
 
 // Select the words around the cursors.
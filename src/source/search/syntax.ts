@@ -0,0 +1,63 @@
+import { EditorState } from "@/state/index";
+import { syntaxTree } from "@/language/index";
+import { SyntaxNode } from "@lezer/common";
+
+// A parsed syntax filter. Each list holds node names (or group
+// names) to test against.
+interface SyntaxFilter {
+  // The match must be inside a node of one of these types.
+  inside: string[];
+  // The match must not be inside a node of any of these types.
+  exclude: string[];
+  // The match must cover a whole node of one of these types.
+  node: string[];
+}
+
+// A syntax filter consists of node names separated by spaces or
+// commas. A plain name, like `Comment`, only allows matches inside
+// nodes of that type. A name prefixed with `-`, like `-String`,
+// disallows matches inside such nodes, and one prefixed with `=`,
+// like `=CallExpression`, requires matches to cover a whole node of
+// the type.
+function parseSyntaxFilter(text: string): SyntaxFilter {
+  const filter: SyntaxFilter = { inside: [], exclude: [], node: [] };
+  for (const term of text.split(/[\s,]+/)) {
+    const prefix = term.charAt(0);
+    if (prefix == "-" || prefix == "!") {
+      if (term.length > 1) filter.exclude.push(term.slice(1));
+    } else if (prefix == "=") {
+      if (term.length > 1) filter.node.push(term.slice(1));
+    } else if (term) {
+      filter.inside.push(term);
+    }
+  }
+  return filter;
+}
+
+function isType(node: SyntaxNode, names: readonly string[]) {
+  return names.some((name) => node.type.is(name));
+}
+
+// Create a function that tests whether a match is allowed by the
+// given syntax filter, using the syntax tree of the state. Returns
+// null when the filter is empty.
+export function syntaxFilterTest(
+  text: string,
+  state: EditorState
+): ((from: number, to: number) => boolean) | null {
+  const { inside, exclude, node } = parseSyntaxFilter(text);
+  if (!inside.length && !exclude.length && !node.length) return null;
+  const tree = syntaxTree(state);
+
+  return (from, to) => {
+    let found = !inside.length,
+      whole = !node.length;
+    for (let cur: SyntaxNode | null = tree.resolveInner(from, 1); cur; cur = cur.parent) {
+      if (cur.from > from || cur.to < to) continue;
+      if (exclude.length && isType(cur, exclude)) return false;
+      if (!found && isType(cur, inside)) found = true;
+      if (!whole && cur.from == from && cur.to == to && isType(cur, node)) whole = true;
+    }
+    return found && whole;
+  };
+}
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import { EditorState } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { gotoLine } from "../search";
+
+const views: EditorView[] = [];
+
+// Destroy the views before the measure scheduled by scrolling runs,
+// since jsdom can't measure text.
+afterEach(() => {
+  for (const view of views.splice(0)) view.destroy();
+});
+
+const doc = Array.from({ length: 10 }, (_, i) => "line " + (i + 1)).join("\n");
+
+function press(view: EditorView, keyCode: number) {
+  const event = new KeyboardEvent("keydown", { bubbles: true });
+  Object.defineProperty(event, "keyCode", { value: keyCode });
+  view.dom.querySelector(".cm-gotoLine input")!.dispatchEvent(event);
+}
+
+// Enter the target in the dialog and go there, returning the
+// selected range as `[from, to]`.
+function go(target: string, cursor = 0, view?: EditorView) {
+  if (!view) {
+    view = new EditorView({ state: EditorState.create({ doc, selection: { anchor: cursor } }) });
+    views.push(view);
+  }
+  gotoLine(view);
+  const input = view.dom.querySelector(".cm-gotoLine input") as HTMLInputElement;
+  input.value = target;
+  input.dispatchEvent(new Event("input"));
+  press(view, 13); // Enter
+  const { from, to } = view.state.selection.main;
+  return [from, to];
+}
+
+const lineStart = (n: number) => EditorState.create({ doc }).doc.line(n).from;
+
+describe("gotoLine", () => {
+  it("goes to a line and column", () => {
+    expect(go("3")).toEqual([lineStart(3), lineStart(3)]);
+    expect(go("3:2")).toEqual([lineStart(3) + 2, lineStart(3) + 2]);
+    expect(go("3:99")).toEqual([lineStart(3) + 6, lineStart(3) + 6]);
+    expect(go("99")).toEqual([lineStart(10), lineStart(10)]);
+  });
+
+  it("goes to relative lines and percentages", () => {
+    expect(go("+2", lineStart(4))).toEqual([lineStart(6), lineStart(6)]);
+    expect(go("-2", lineStart(4))).toEqual([lineStart(2), lineStart(2)]);
+    expect(go("50%")).toEqual([lineStart(5), lineStart(5)]);
+  });
+
+  it("goes to a character offset", () => {
+    expect(go("#8")).toEqual([8, 8]);
+    expect(go("#1000")).toEqual([doc.length, doc.length]);
+  });
+
+  it("selects line ranges", () => {
+    const end = (n: number) => lineStart(n) + ("line " + n).length;
+    expect(go("2-4")).toEqual([lineStart(2), end(4)]);
+    expect(go("4-2")).toEqual([lineStart(2), end(4)]);
+    expect(go("2,+1")).toEqual([lineStart(2), end(3)]);
+  });
+
+  it("ignores invalid targets", () => {
+    expect(go("nope", 3)).toEqual([3, 3]);
+  });
+
+  it("highlights the target while it is entered", () => {
+    const view = new EditorView({ state: EditorState.create({ doc }) });
+    views.push(view);
+    gotoLine(view);
+    const input = view.dom.querySelector(".cm-gotoLine input") as HTMLInputElement;
+    input.value = "2-3";
+    input.dispatchEvent(new Event("input"));
+    expect(
+      Array.from(view.contentDOM.querySelectorAll(".cm-gotoLine-preview")).map((e) => e.textContent)
+    ).toEqual(["line 2", "line 3"]);
+  });
+
+  it("recalls recent targets with the arrow keys", () => {
+    const view = new EditorView({ state: EditorState.create({ doc }) });
+    views.push(view);
+    go("4", 0, view);
+    go("7", 0, view);
+    gotoLine(view);
+    const input = view.dom.querySelector(".cm-gotoLine input") as HTMLInputElement;
+    press(view, 38); // Up
+    expect(input.value).toBe("7");
+    press(view, 38);
+    expect(input.value).toBe("4");
+    press(view, 40); // Down
+    expect(input.value).toBe("7");
+  });
+});
@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { EditorState } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { gotoSymbol, gotoSymbolKeymap, searchKeymap, DocumentSymbol } from "../search";
+
+// Lists the lines starting with `def` as symbols.
+function defSymbols(state: EditorState) {
+  const symbols: DocumentSymbol[] = [];
+  for (let i = 1; i <= state.doc.lines; i++) {
+    const line = state.doc.line(i),
+      m = /^def (\w+)/.exec(line.text);
+    if (m) symbols.push({ name: m[1], from: line.from + 4, to: line.from + 4 + m[1].length });
+  }
+  return symbols;
+}
+
+const views: EditorView[] = [];
+
+function editor(doc: string) {
+  const view = new EditorView({
+    state: EditorState.create({
+      doc,
+      extensions: EditorState.languageData.of(() => [{ symbols: defSymbols }]),
+    }),
+  });
+  views.push(view);
+  return view;
+}
+
+// Destroy the views before the measure scheduled by scrolling runs,
+// since jsdom can't measure text.
+afterEach(() => {
+  for (const view of views.splice(0)) view.destroy();
+  vi.useRealTimers();
+});
+
+const names = (view: EditorView) =>
+  Array.from(view.dom.querySelectorAll(".cm-gotoSymbol-name")).map((n) => n.textContent);
+
+function press(view: EditorView, keyCode: number) {
+  const event = new KeyboardEvent("keydown", { bubbles: true });
+  Object.defineProperty(event, "keyCode", { value: keyCode });
+  view.dom.querySelector(".cm-gotoSymbol input")!.dispatchEvent(event);
+}
+
+describe("gotoSymbol", () => {
+  it("lists the symbols of the document", () => {
+    const view = editor("def one\nx\ndef two");
+    gotoSymbol(view);
+    expect(names(view)).toEqual(["one", "two"]);
+  });
+
+  it("updates the list when the document changes while it is open", () => {
+    vi.useFakeTimers();
+    const view = editor("def one\nx\ndef two");
+    gotoSymbol(view);
+    view.dispatch({ changes: { from: 0, insert: "def zero\n" } });
+    expect(names(view)).toEqual(["one", "two"]);
+    vi.advanceTimersByTime(100);
+    view.dispatch({ changes: { from: 0, insert: "def minus\n" } });
+    vi.advanceTimersByTime(200);
+    expect(names(view)).toEqual(["one", "two"]);
+    vi.advanceTimersByTime(100);
+    expect(names(view)).toEqual(["minus", "zero", "one", "two"]);
+  });
+
+  it("goes to the current position of a symbol after an edit", () => {
+    const view = editor("def one\nx\ndef two");
+    gotoSymbol(view);
+    press(view, 40); // Down
+    expect(view.dom.querySelector("[aria-selected]")!.textContent).toBe("two");
+    view.dispatch({ changes: { from: 8, insert: "more text\n" } });
+    expect(view.dom.querySelector("[aria-selected]")!.textContent).toBe("two");
+    press(view, 13); // Enter
+    const { head } = view.state.selection.main;
+    expect(view.state.sliceDoc(head, head + 3)).toBe("two");
+  });
+
+  it("isn't bound in the default search keymap", () => {
+    expect(searchKeymap.some((b) => b.run == gotoSymbol)).toBe(false);
+    expect(gotoSymbolKeymap.map((b) => b.key)).toEqual(["Mod-Shift-o"]);
+  });
+});
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import { EditorState } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { SearchQuery, searchDocuments, showDocumentSearchResults } from "../search";
+
+const query = new SearchQuery({ search: "foo" });
+
+const views: EditorView[] = [];
+
+function editor(doc: string) {
+  const view = new EditorView({ state: EditorState.create({ doc }) });
+  views.push(view);
+  return view;
+}
+
+// Destroy the views before the measure scheduled by scrolling runs,
+// since jsdom can't measure text.
+afterEach(() => {
+  for (const view of views.splice(0)) view.destroy();
+});
+
+const matchItems = (view: EditorView) =>
+  Array.from(view.dom.querySelectorAll(".cm-documentSearch-match")) as HTMLElement[];
+
+describe("showDocumentSearchResults", () => {
+  it("redraws the open panel when new results are shown", () => {
+    const host = editor("foo\nbar foo");
+    const documents = [{ name: "host", view: host }];
+    showDocumentSearchResults(host, searchDocuments(query, documents));
+    expect(matchItems(host)).toHaveLength(2);
+    showDocumentSearchResults(host, searchDocuments(new SearchQuery({ search: "bar" }), documents));
+    expect(matchItems(host)).toHaveLength(1);
+    expect(host.dom.querySelector(".cm-documentSearch-matchText")!.textContent).toBe("bar");
+  });
+
+  it("maps the matches in the editor's own document through its changes", () => {
+    const host = editor("foo\nbar foo");
+    showDocumentSearchResults(host, searchDocuments(query, [{ name: "host", view: host }]));
+    host.dispatch({ changes: { from: 0, insert: "new line\n" } });
+    const items = matchItems(host);
+    expect(items.map((i) => i.querySelector(".cm-documentSearch-line")!.textContent)).toEqual([
+      "2",
+      "3",
+    ]);
+    items[1].click();
+    const { from, to } = host.state.selection.main;
+    expect(host.state.sliceDoc(from, to)).toBe("foo");
+    expect(from).toBe(17);
+  });
+
+  it("drops matches whose text was deleted", () => {
+    const host = editor("foo\nbar foo");
+    showDocumentSearchResults(host, searchDocuments(query, [{ name: "host", view: host }]));
+    host.dispatch({ changes: { from: 0, to: 4 } });
+    expect(matchItems(host)).toHaveLength(1);
+  });
+
+  it("doesn't jump into another document that changed after the search", () => {
+    const host = editor(""),
+      other = editor("abc foo");
+    showDocumentSearchResults(host, searchDocuments(query, [{ name: "other", view: other }]));
+    other.dispatch({ changes: { from: 0, insert: "xyz" } });
+    matchItems(host)[0].click();
+    expect(other.state.selection.main.empty).toBe(true);
+    expect(host.dom.querySelector(".cm-documentSearch-stale")).not.toBeNull();
+  });
+
+  it("jumps into another document that is unchanged", () => {
+    const host = editor(""),
+      other = editor("abc foo");
+    showDocumentSearchResults(host, searchDocuments(query, [{ name: "other", view: other }]));
+    matchItems(host)[0].click();
+    expect(other.state.selection.main).toMatchObject({ from: 4, to: 7 });
+  });
+});
@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import { EditorState, EditorSelection } from "@/state/index";
+import { EditorView } from "@/view/index";
+import { search, setSearchQuery, SearchQuery, replaceAll } from "../search";
+
+const views: EditorView[] = [];
+
+afterEach(() => {
+  for (const view of views.splice(0)) view.destroy();
+});
+
+function replaceInSelection(doc: string, selection: EditorSelection) {
+  const view = new EditorView({
+    state: EditorState.create({
+      doc,
+      selection,
+      extensions: [search(), EditorState.allowMultipleSelections.of(true)],
+    }),
+  });
+  views.push(view);
+  view.dispatch({
+    effects: setSearchQuery.of(new SearchQuery({ search: "a", replace: "b", inSelection: true })),
+  });
+  replaceAll(view);
+  return view.state.doc.toString();
+}
+
+describe("search in selection", () => {
+  it("only replaces matches inside the selection", () => {
+    expect(replaceInSelection("a a a a", EditorSelection.single(1, 5))).toBe("a b b a");
+  });
+
+  it("replaces nothing when nothing is selected", () => {
+    const selection = EditorSelection.create([
+      EditorSelection.cursor(1),
+      EditorSelection.cursor(4),
+    ]);
+    expect(replaceInSelection("a a a a", selection)).toBe("a a a a");
+  });
+});
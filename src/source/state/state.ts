@@ -449,6 +449,8 @@ export class EditorState {
   ///   language.
   /// - [`"closeBrackets"`](#autocomplete.CloseBracketConfig) controls
   ///   bracket closing behavior.
+  /// - [`"symbols"`](#search.SymbolSource) lists the symbols that
+  ///   [`gotoSymbol`](#search.gotoSymbol) navigates to.
   languageDataAt<T>(name: string, pos: number, side: -1 | 0 | 1 = -1): readonly T[] {
     const values: T[] = [];
     for (const provider of this.facet(languageData)) {
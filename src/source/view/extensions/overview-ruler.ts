@@ -0,0 +1,238 @@
+import { Extension, Facet, RangeSet, RangeValue, combineConfig } from "@/state/index";
+import { EditorView } from "../editorview";
+import { ViewPlugin, ViewUpdate } from "./extension";
+
+/** 滚动条旁的概览标尺 */
+
+/// A range marked in the [overview ruler](#view.overviewRuler).
+export interface OverviewRulerMark {
+  from: number;
+  to: number;
+  /// A CSS class for this mark's tick, used instead of the source's
+  /// class.
+  class?: string;
+}
+
+type Markers = RangeSet<RangeValue> | readonly OverviewRulerMark[];
+
+/// A source of ticks for the [overview ruler](#view.overviewRuler),
+/// registered with the
+/// [`overviewRulerSource`](#view.overviewRulerSource) facet.
+export interface OverviewRulerSource {
+  /// Get the ranges to mark. These can be given as a range set (for
+  /// example a [decoration set](#view.DecorationSet)) or an array of
+  /// marks, sorted by position. Called when the document, viewport,
+  /// or editor geometry changes, and on updates for which
+  /// [`markersChange`](#view.OverviewRulerSource.markersChange)
+  /// returns true, so this should be cheap, and return a limited
+  /// number of ranges. The ruler is only redrawn when the returned
+  /// value changes, so this should return the same value as long as
+  /// the ranges stay the same.
+  markers: (view: EditorView) => Markers;
+  /// If the markers depend on other state, such as a state field or
+  /// the selection, pass a predicate here that checks whether a given
+  /// view update might change them.
+  markersChange?: (update: ViewUpdate) => boolean;
+  /// A CSS class added to the ticks of this source, which is used to
+  /// style them.
+  class?: string;
+  /// A CSS color for the ticks. Can be used instead of a class.
+  color?: string;
+}
+
+/// Facet used to add tick sources to the overview ruler. The search
+/// and selection match highlighters and the linter provide sources
+/// through this facet, and others can add their own.
+export const overviewRulerSource = Facet.define<OverviewRulerSource>();
+
+interface OverviewRulerConfig {
+  /// The width of the ruler, in pixels. Defaults to 10.
+  width?: number;
+  /// The minimum height of a tick, in pixels. Defaults to 2.
+  minTickHeight?: number;
+}
+
+const overviewRulerConfig = Facet.define<OverviewRulerConfig, Required<OverviewRulerConfig>>({
+  combine(configs) {
+    return combineConfig<Required<OverviewRulerConfig>>(
+      configs,
+      { width: 10, minTickHeight: 2 },
+      { width: Math.max }
+    );
+  },
+});
+
+interface Tick {
+  top: number;
+  height: number;
+  pos: number;
+  class: string;
+  color: string;
+}
+
+interface RulerMeasure {
+  top: number;
+  height: number;
+  ticks: Tick[];
+}
+
+function markerRanges(view: EditorView, markers: Markers) {
+  if (Array.isArray(markers)) return markers as readonly OverviewRulerMark[];
+  const ranges: OverviewRulerMark[] = [];
+  (markers as RangeSet<RangeValue>).between(0, view.state.doc.length, (from, to) => {
+    ranges.push({ from, to });
+  });
+  return ranges;
+}
+
+function getMarkers(view: EditorView) {
+  return view.state.facet(overviewRulerSource).map((source) => source.markers(view));
+}
+
+function sameMarkers(a: readonly Markers[], b: readonly Markers[]) {
+  return a.length == b.length && a.every((markers, i) => markers == b[i]);
+}
+
+const rulerPlugin = ViewPlugin.fromClass(
+  class {
+    dom: HTMLElement;
+    ticks: HTMLElement[] = [];
+    markers: readonly Markers[];
+    measureReq: { read: () => RulerMeasure; write: (m: RulerMeasure) => void };
+
+    constructor(readonly view: EditorView) {
+      this.dom = view.dom.appendChild(document.createElement("div"));
+      this.dom.className = "cm-overviewRuler";
+      this.dom.setAttribute("aria-hidden", "true");
+      this.dom.addEventListener("mousedown", (event) => this.click(event));
+      this.markers = getMarkers(view);
+      this.measureReq = { read: this.measure.bind(this), write: this.draw.bind(this) };
+      view.requestMeasure(this.measureReq);
+    }
+
+    update(update: ViewUpdate) {
+      const sources = update.state.facet(overviewRulerSource);
+      const changed =
+        update.docChanged ||
+        update.viewportChanged ||
+        update.geometryChanged ||
+        update.heightChanged ||
+        update.state.facet(overviewRulerConfig) != update.startState.facet(overviewRulerConfig) ||
+        sources != update.startState.facet(overviewRulerSource);
+      if (!changed && !sources.some((source) => source.markersChange?.(update))) return;
+
+      // Sources are expected to return the same value as long as
+      // their markers don't change.
+      const markers = getMarkers(this.view);
+      if (changed || !sameMarkers(markers, this.markers)) {
+        this.markers = markers;
+        this.view.requestMeasure(this.measureReq);
+      }
+    }
+
+    // Compute the positions of the ticks from the height of the lines
+    // relative to the height of the content.
+    measure(): RulerMeasure {
+      const { view } = this;
+      const { minTickHeight } = view.state.facet(overviewRulerConfig);
+      const top = view.scrollDOM.offsetTop,
+        height = view.scrollDOM.clientHeight;
+      const total = Math.max(1, view.contentHeight);
+      const sources = view.state.facet(overviewRulerSource);
+      const ticks: Tick[] = [];
+
+      this.markers.forEach((markers, i) => {
+        const source = sources[i];
+        let last: Tick | null = null;
+        for (const range of markerRanges(view, markers)) {
+          const cls = range.class ?? source.class ?? "";
+          const from = view.lineBlockAt(range.from).top,
+            to = view.lineBlockAt(range.to).bottom;
+          const tickTop = Math.floor(((from + view.documentPadding.top) / total) * height);
+          const tickHeight = Math.max(minTickHeight, Math.ceil(((to - from) / total) * height));
+          // Merge ticks that touch into one element.
+          if (last && last.class == cls && tickTop <= last.top + last.height) {
+            last.height = Math.max(last.height, tickTop + tickHeight - last.top);
+          } else {
+            last = {
+              top: tickTop,
+              height: tickHeight,
+              pos: range.from,
+              class: cls,
+              color: source.color || "",
+            };
+            ticks.push(last);
+          }
+        }
+      });
+
+      return { top, height, ticks };
+    }
+
+    draw({ top, height, ticks }: RulerMeasure) {
+      this.dom.style.top = top + "px";
+      this.dom.style.height = height + "px";
+      ticks.forEach((tick, i) => {
+        let elt = this.ticks[i];
+        if (!elt) this.ticks.push((elt = this.dom.appendChild(document.createElement("div"))));
+        elt.className = "cm-overviewRuler-tick" + (tick.class ? " " + tick.class : "");
+        elt.style.top = tick.top + "px";
+        elt.style.height = tick.height + "px";
+        elt.style.background = tick.color;
+        elt.setAttribute("data-pos", String(tick.pos));
+      });
+      for (const elt of this.ticks.splice(ticks.length)) elt.remove();
+    }
+
+    click(event: MouseEvent) {
+      const tick = (event.target as HTMLElement).closest(".cm-overviewRuler-tick");
+      const pos = tick && Number(tick.getAttribute("data-pos"));
+      if (pos == null || isNaN(pos) || pos > this.view.state.doc.length) return;
+      event.preventDefault();
+      this.view.dispatch({ effects: EditorView.scrollIntoView(pos, { y: "center" }) });
+    }
+
+    destroy() {
+      this.dom.remove();
+    }
+  }
+);
+
+// The width of the ruler is made available to the theme as a CSS
+// variable, which the base theme uses to keep the scroller (and its
+// scrollbar) clear of the ruler.
+const rulerAttributes = EditorView.editorAttributes.compute([overviewRulerConfig], (state) => ({
+  class: "cm-withOverviewRuler",
+  style: `--cm-overviewRuler-width: ${state.facet(overviewRulerConfig).width}px`,
+}));
+
+const baseTheme = EditorView.baseTheme({
+  "&.cm-withOverviewRuler .cm-scroller": {
+    marginRight: "var(--cm-overviewRuler-width)",
+  },
+  ".cm-overviewRuler": {
+    position: "absolute",
+    right: 0,
+    width: "var(--cm-overviewRuler-width)",
+    pointerEvents: "none",
+  },
+  ".cm-overviewRuler-tick": {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    pointerEvents: "auto",
+    cursor: "pointer",
+    backgroundColor: "#8888",
+  },
+});
+
+/// Show an overview ruler beside the editor's scrollbar, with ticks
+/// marking where in the document the ranges provided through
+/// [`overviewRulerSource`](#view.overviewRulerSource) are. The
+/// ticks are positioned in proportion to the height of the content,
+/// and clicking one scrolls its range into view. The base theme
+/// narrows the editor's scroller to make room for the ruler, so that
+/// it doesn't cover the scrollbar.
+export function overviewRuler(config: OverviewRulerConfig = {}): Extension {
+  return [overviewRulerConfig.of(config), rulerPlugin, rulerAttributes, baseTheme];
+}
@@ -44,6 +44,8 @@ export {
   lineNumberWidgetMarker,
 } from "./extensions/gutter";
 export { highlightWhitespace, highlightTrailingWhitespace } from "./decorations/highlight-space";
+export { overviewRuler, overviewRulerSource } from "./extensions/overview-ruler";
+export type { OverviewRulerSource, OverviewRulerMark } from "./extensions/overview-ruler";
 
 import {
   HeightMap,
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import { EditorState, StateEffect, StateField } from "@/state/index";
+import { EditorView, overviewRuler, overviewRulerSource, OverviewRulerMark } from "@/view/index";
+
+const setMarks = StateEffect.define<readonly OverviewRulerMark[]>();
+
+const marks = StateField.define<readonly OverviewRulerMark[]>({
+  create: () => [],
+  update: (value, tr) => tr.effects.reduce((v, e) => (e.is(setMarks) ? e.value : v), value),
+});
+
+let calls = 0;
+
+function ruler() {
+  const view = new EditorView({
+    state: EditorState.create({
+      doc: "a\nb\nc\nd\ne\nf\n",
+      extensions: [
+        marks,
+        overviewRuler({ width: 8 }),
+        overviewRulerSource.of({
+          class: "mark",
+          markers: (view) => {
+            calls++;
+            return view.state.field(marks);
+          },
+          markersChange: (update) => update.startState.field(marks) != update.state.field(marks),
+        }),
+      ],
+    }),
+  });
+  view.measure();
+  return view;
+}
+
+const ticks = (view: EditorView) =>
+  Array.from(view.dom.querySelectorAll(".cm-overviewRuler-tick")) as HTMLElement[];
+
+describe("overviewRuler", () => {
+  it("draws a tick per marked range and makes room beside the scrollbar", () => {
+    const view = ruler();
+    expect(view.dom.classList.contains("cm-withOverviewRuler")).toBe(true);
+    expect(view.dom.style.getPropertyValue("--cm-overviewRuler-width")).toBe("8px");
+    expect(view.scrollDOM.style.marginRight).toBe("");
+    view.dispatch({
+      effects: setMarks.of([
+        { from: 0, to: 1 },
+        { from: 10, to: 11, class: "other" },
+      ]),
+    });
+    view.measure();
+    expect(ticks(view).map((t) => t.getAttribute("data-pos"))).toEqual(["0", "10"]);
+    view.destroy();
+  });
+
+  it("only asks sources for markers when they may have changed", () => {
+    const view = ruler();
+    calls = 0;
+    view.dispatch({ selection: { anchor: 3 } });
+    expect(calls).toBe(0);
+    view.dispatch({ effects: setMarks.of([{ from: 2, to: 3 }]) });
+    expect(calls).toBe(1);
+    view.dispatch({ changes: { from: 0, insert: "x" } });
+    expect(calls).toBe(2);
+    view.destroy();
+  });
+
+  it("reuses tick elements", () => {
+    const view = ruler();
+    view.dispatch({
+      effects: setMarks.of([
+        { from: 0, to: 1 },
+        { from: 10, to: 11, class: "other" },
+      ]),
+    });
+    view.measure();
+    const [first] = ticks(view);
+    view.dispatch({ effects: setMarks.of([{ from: 4, to: 5 }]) });
+    view.measure();
+    expect(ticks(view)).toEqual([first]);
+    expect(first.getAttribute("data-pos")).toBe("4");
+    view.destroy();
+  });
+});